@@ -0,0 +1,123 @@
+import {describe, expect, it} from "vitest";
+import {trait, type Entity} from "koota";
+import {
+  AtLeast,
+  Count,
+  createTreeQuery,
+  createTreeQueryFilter,
+  Max,
+  Min,
+  None,
+  Reduce,
+  Sum
+} from "./tree-query.ts";
+import {createTestWorld, Position} from "./test-helpers.ts";
+
+describe('aggregations over matched children', () => {
+
+  const Threat = trait({value: 0});
+  const ThreatInRange = trait({value: 0});
+
+  const IsActor = trait();
+  const IsEnemy = trait();
+  const IsAlly = trait();
+  const IsMine = trait();
+
+  // the pairs the condition was called with
+  let compared = 0;
+
+  const InRange = createTreeQueryFilter((eid1: Entity, eid2: Entity) => {
+    compared++;
+    return Math.abs(eid1.get(Position)!.x - eid2.get(Position)!.x) <= 10;
+  }, {requires: [Position]});
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    const actors = [0, 100, 200].map(x => world.spawn(IsActor, Position({x, y: 0})));
+    const enemies = [[5, 3], [-5, 4], [105, 10], [300, 1]].map(([x, value]) =>
+      world.spawn(IsEnemy, Threat({value}), Position({x, y: 0}))
+    );
+    const allies = [2, 4, 198].map(x => world.spawn(IsAlly, Position({x, y: 0})));
+    return {world, actors, enemies, allies};
+  };
+
+
+  it("combines the matches of every root", () => {
+    const {world, actors, enemies} = populate();
+    const query = createTreeQuery(IsActor, InRange(IsEnemy, Threat));
+
+    expect(query.aggregate(world, [0], Sum(Threat, "value"))).toEqual(new Map([[actors[0], 7], [actors[1], 10]]));
+    expect(query.aggregate(world, [0], Count())).toEqual(new Map([[actors[0], 2], [actors[1], 1]]));
+    expect(query.aggregate(world, [0], Min(Threat, "value"))).toEqual(new Map([[actors[0], 3], [actors[1], 10]]));
+    expect(query.aggregate(world, [0], Max(Threat, "value"))).toEqual(new Map([[actors[0], 4], [actors[1], 10]]));
+
+    const strongest = Reduce<Entity | undefined>(undefined, (strongest, enemy) =>
+      strongest === undefined || enemy.get(Threat)!.value > strongest.get(Threat)!.value ? enemy : strongest
+    );
+    expect(query.aggregate(world, [0], strongest)).toEqual(new Map([[actors[0], enemies[1]], [actors[1], enemies[2]]]));
+
+    // the keys are the result, limits included
+    expect([...query.aggregate(world, [0], Count(), undefined, {limit: 1}).keys()]).toEqual(query(world, undefined, {limit: 1}));
+  });
+
+
+  it("reuses the pairs the filter collected", () => {
+    const {world, actors} = populate();
+    const query = createTreeQuery(IsActor, AtLeast(0, InRange(IsAlly)));
+
+    // a plain run stops at the first match, the aggregated edge collects every pair once
+    compared = 0;
+    query(world);
+    const plain = compared;
+    compared = 0;
+    expect(query.aggregate(world, [0], Count())).toEqual(new Map([[actors[0], 2], [actors[1], 0], [actors[2], 1]]));
+    expect(compared).toBeGreaterThanOrEqual(plain);
+    expect(compared).toBeLessThanOrEqual(actors.length * 3);
+  });
+
+
+  it("aggregates filter nodes further down and writes into traits", () => {
+    const {world, actors, enemies} = populate();
+    world.spawn(IsMine, Position({x: 110, y: 0}));
+
+    // the enemies that are left, with the number of mines in range
+    const query = createTreeQuery(IsActor, InRange(IsEnemy, Threat, AtLeast(0, InRange(IsMine))));
+    expect(query.aggregate(world, [0, 0], Count())).toEqual(new Map([[enemies[0], 0], [enemies[1], 0], [enemies[2], 1]]));
+    // only the ones the actors reach, even if every actor passes
+    const farEnemy = world.spawn(IsEnemy, Threat({value: 1}), Position({x: 150, y: 0}));
+    world.spawn(IsMine, Position({x: 155, y: 0}));
+    const reached = createTreeQuery(IsActor, AtLeast(0, InRange(IsEnemy, Threat, InRange(IsMine))));
+    expect(reached.aggregate(world, [0, 0], Count())).toEqual(new Map([[enemies[2], 1]]));
+    expect([...reached.aggregate(world, [0, 0], Count()).keys()]).not.toContain(farEnemy);
+
+    // and with a limit, only the ones below the roots that are left
+    const everyActor = createTreeQuery(IsActor, AtLeast(0, InRange(IsEnemy, Threat, AtLeast(0, InRange(IsMine)))));
+    expect(everyActor.aggregate(world, [0, 0], Count(), undefined, {limit: 1}))
+      .toEqual(new Map([[enemies[0], 0], [enemies[1], 0]]));
+
+    // negated filters never have matches
+    const safe = createTreeQuery(IsActor, None(InRange(IsMine)), InRange(IsEnemy, Threat));
+    expect(safe.aggregate(world, [0], Count())).toEqual(new Map([[actors[0], 0]]));
+
+    actors[1].add(ThreatInRange({value: 100}));
+    createTreeQuery(IsActor, InRange(IsEnemy, Threat)).aggregate(world, [0], Sum(Threat, "value"), undefined, {
+      into: {trait: ThreatInRange, key: "value"},
+    });
+    expect(actors.map(actor => actor.get(ThreatInRange)?.value)).toEqual([7, 10, undefined]);
+  });
+
+
+  it("rejects invalid aggregations", () => {
+    const {world} = populate();
+    const query = createTreeQuery(IsActor, InRange(IsEnemy, Threat));
+    expect(() => query.aggregate(world, [1], Count())).toThrow();
+    expect(() => query.aggregate(world, [0, 0], Count())).toThrow();
+    expect(() => query.aggregate(world, [0], Count(), undefined, {distinct: true})).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => Sum(Threat, "missing")).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => Reduce(0)).toThrow();
+  });
+
+});
@@ -0,0 +1,124 @@
+import {describe, expect, it} from "vitest";
+import {createAdded, createWorld, getStore, trait, type Entity, type World} from "koota";
+import {createTreeQuery, createTreeQueryFilter, From, None} from "./tree-query.ts";
+import {createRandom, createTestWorld} from "./test-helpers.ts";
+
+import v8 from "node:v8";
+
+// exposed by the --expose-gc flag the tests run with (see vitest.config.ts)
+const gc = globalThis.gc ?? (() => {
+  throw new Error("allocation tests need the --expose-gc flag");
+});
+
+describe('stable results without garbage', () => {
+
+  // not the traits of the test helpers: imported bindings are read through the module on every access, which
+  // doubles the time of the loops below
+  const Position = trait({x: 0, y: 0});
+  const Radius = trait({value: 0});
+
+  const IsSpaceship = trait();
+  const IsHealthPickup = trait();
+  const IsExplosiveOnContact = trait();
+
+  // reads the stores directly, `entity.get(...)` creates an object on every call
+  const ENTITY_ID_MASK = (1 << 20) - 1;
+  const InPickupRange = createTreeQueryFilter((eid1: Entity, eid2: Entity, world: World) => {
+    const position = getStore(world, Position) as { x: number[]; y: number[] };
+    const radius = getStore(world, Radius) as { value: number[] };
+    const i = eid1 & ENTITY_ID_MASK;
+    const j = eid2 & ENTITY_ID_MASK;
+    const dist = Math.sqrt((position.x[i] - position.x[j]) ** 2 + (position.y[i] - position.y[j]) ** 2);
+    return dist - radius.value[j] <= radius.value[i];
+  }, {requires: [Position, Radius]});
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    const random = createRandom(7);
+    for (let i = 0; i < 100; i++) {
+      world.spawn(IsSpaceship, Radius({value: 5 + random() * 10}), Position({x: random() * 300, y: random() * 300}));
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: random() * 300, y: random() * 300}));
+      if (i % 4 === 0) world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: random() * 300, y: random() * 300}));
+    }
+    return world;
+  };
+
+
+  it("executes every frame without producing garbage", () => {
+    const world = populate();
+    const query = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup, None(InPickupRange(IsExplosiveOnContact))));
+    const out: Entity[] = [];
+
+    // compiling (and optimizing) the code allocates, so we measure rounds until one of them gets through without,
+    // a query that produces garbage does so in every round
+    for (let i = 0; i < 2000; i++) query.into(world, out);
+    let allocated = Infinity;
+    for (let round = 0; round < 20 && allocated > 1000; round++) {
+      gc();
+      const before = v8.getHeapStatistics().used_heap_size;
+      for (let i = 0; i < 1000; i++) query.into(world, out);
+      allocated = Math.min(allocated, v8.getHeapStatistics().used_heap_size - before);
+    }
+
+    expect(out.length).toBeGreaterThan(0);
+    expect(out).toEqual(query(world));
+    // a single array of the result per execution would be way more than that
+    expect(allocated).toBeLessThan(1000);
+  });
+
+
+  it("returns results that later executions don't change", () => {
+    const world = populate();
+    const query = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup));
+
+    const first = query(world);
+    const second = query(world);
+    expect(second).toEqual(first);
+    expect(second).not.toBe(first);
+
+    // the entities of the nodes are kept between executions, until the world changes
+    const ship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 1000, y: 1000}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 1005, y: 1000}));
+    const out = [ship, ship, ship, ship];
+    expect(query.into(world, out)).toBe(out);
+    expect(out).toEqual([...first, ship]);
+    expect(second).toEqual(first);
+    ship.destroy();
+    expect(query(world)).toEqual(first);
+    expect(query.into(world, out, undefined, {limit: 1})).toEqual([first[0]]);
+
+    // queries with tracking modifiers change by running, they run on every execution
+    const Added = createAdded();
+    const added = createTreeQuery(Added(IsSpaceship), InPickupRange(IsHealthPickup));
+    expect(added(world)).toEqual([]);
+    const newShip = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 1000, y: 1000}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 1005, y: 1000}));
+    expect(added(world)).toEqual([newShip]);
+    expect(added(world)).toEqual([]);
+  });
+
+
+  it("narrows lists with entities of several worlds", () => {
+    const world = createWorld();
+    const otherWorld = createWorld();
+    otherWorld.spawn();
+    const ship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    // the same index in both worlds
+    const pickup = world.spawn(IsHealthPickup, Radius({value: 10}), Position({x: 5, y: 0}));
+    const otherPickup = otherWorld.spawn(IsHealthPickup, Radius({value: 10}), Position({x: 0, y: 5}));
+    expect(pickup & ENTITY_ID_MASK).toBe(otherPickup & ENTITY_ID_MASK);
+
+    const InRange = createTreeQueryFilter((eid1: Entity, eid2: Entity) => {
+      const myPos = eid1.get(Position)!;
+      const otherPos = eid2.get(Position)!;
+      return Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2) <= eid1.get(Radius)!.value;
+    });
+    const query = createTreeQuery(IsSpaceship, From(() => [pickup, otherPickup], InRange(InRange(IsSpaceship))));
+    const [binding] = query.bindings(world);
+    expect(binding.entity).toBe(ship);
+    expect(binding.matches[0].map(match => match.entity)).toEqual([pickup, otherPickup]);
+    expect(binding.matches[0].map(match => match.matches[0].map(({entity}) => entity))).toEqual([[ship], [ship]]);
+  });
+
+});
@@ -0,0 +1,146 @@
+import {describe, expect, it} from "vitest";
+import {Not, trait} from "koota";
+import {AnyOf, AtLeast, createTreeQuery, createTreeQueryFilter, None, Reachable} from "./tree-query.ts";
+import {
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius,
+  sorted
+} from "./test-helpers.ts";
+
+describe('AnyOf', () => {
+
+  const IsHealer = trait();
+  const IsShielded = trait();
+
+  const InRange = createTreeQueryFilter(inPickupRange, {requires: [Position, Radius]});
+
+  const spawnScene = () => {
+    const world = createTestWorld();
+
+    const nearHealer = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsHealer, Radius({value: 1}), Position({x: 5, y: 0}));
+
+    const nearPickup = world.spawn(IsSpaceship, IsShielded, Radius({value: 10}), Position({x: 100, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 105, y: 0}));
+
+    // in range of a pickup, but not shielded
+    const unshielded = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 200, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 205, y: 0}));
+
+    const alone = world.spawn(IsSpaceship, IsShielded, Radius({value: 10}), Position({x: 300, y: 0}));
+
+    return {world, nearHealer, nearPickup, unshielded, alone};
+  };
+
+
+  it("unions the parents of all branches", () => {
+    const {world, nearHealer, nearPickup, unshielded, alone} = spawnScene();
+
+    const healerOrPickup = createTreeQuery(IsSpaceship, AnyOf(InRange(IsHealer), InRange(IsHealthPickup)));
+    expect(sorted(healerOrPickup(world))).toEqual(sorted([nearHealer, nearPickup, unshielded]));
+
+    // a branch can be a complete sub-tree with traits of its own
+    const healerOrShieldedWithPickup = createTreeQuery(
+      IsSpaceship,
+      AnyOf(InRange(IsHealer), [IsShielded, InRange(IsHealthPickup)])
+    );
+    expect(sorted(healerOrShieldedWithPickup(world))).toEqual(sorted([nearHealer, nearPickup]));
+
+    // or just a trait
+    const healerOrShielded = createTreeQuery(IsSpaceship, AnyOf(InRange(IsHealer), IsShielded));
+    expect(sorted(healerOrShielded(world))).toEqual(sorted([nearHealer, nearPickup, alone]));
+
+    // the other filters on the level still have to match
+    const shieldedAndAny = createTreeQuery(IsSpaceship, IsShielded, AnyOf(InRange(IsHealer), InRange(IsHealthPickup)));
+    expect(shieldedAndAny(world)).toEqual([nearPickup]);
+
+    const nothing = createTreeQuery(IsSpaceship, AnyOf(InRange(IsExplosiveOnContact), [Not(IsShielded), IsHealer]));
+    expect(nothing(world)).toEqual([]);
+  });
+
+
+  it("works with nested filters, negation and other filters on the same level", () => {
+    const {world, nearHealer, nearPickup, unshielded, alone} = spawnScene();
+
+    // the pickup near the unshielded spaceship has an explosive next to it
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 206, y: 0}));
+
+    const safePickupOrHealer = createTreeQuery(
+      IsSpaceship,
+      AnyOf(InRange(IsHealer), InRange(IsHealthPickup, None(InRange(IsExplosiveOnContact))))
+    );
+    expect(sorted(safePickupOrHealer(world))).toEqual(sorted([nearHealer, nearPickup]));
+
+    const neither = createTreeQuery(IsSpaceship, None(AnyOf(InRange(IsHealer), InRange(IsHealthPickup))));
+    expect(neither(world)).toEqual([alone]);
+
+    // AnyOf nested below a filter: pickups in range of a spaceship that is near a healer or shielded
+    const pickups = createTreeQuery(IsHealthPickup, InRange(IsSpaceship, AnyOf(InRange(IsHealer), IsShielded)));
+    expect(pickups(world)).toEqual([world.query(IsHealthPickup)[0]]);
+
+    // filters after AnyOf see the narrowed down parents
+    const twoLevels = createTreeQuery(
+      IsSpaceship,
+      AnyOf(InRange(IsHealer), InRange(IsHealthPickup)),
+      InRange(IsExplosiveOnContact)
+    );
+    expect(twoLevels(world)).toEqual([unshielded]);
+  });
+
+
+  it("binds the matches of every branch", () => {
+    const {world, nearHealer} = spawnScene();
+    const healer = world.queryFirst(IsHealer)!;
+
+    const query = createTreeQuery(IsSpaceship, AnyOf(InRange(IsHealer), [IsShielded, InRange(IsHealthPickup)]));
+    const bindings = query.bindings(world);
+    expect(bindings.length).toBe(2);
+
+    const binding = bindings.find(b => b.entity === nearHealer)!;
+    const [anyOf] = binding.matches;
+    expect(anyOf.length).toBe(1);
+    expect(anyOf[0].entity).toBe(nearHealer);
+
+    // matched the first branch, not the second
+    const [first, second] = anyOf[0].matches;
+    expect(second).toEqual([]);
+    expect(first.length).toBe(1);
+    expect(first[0].entity).toBe(nearHealer);
+    expect(first[0].matches[0].map(match => match.entity)).toEqual([healer]);
+  });
+
+
+  it("stays in sync when tracked", () => {
+    const {world, nearHealer, nearPickup, unshielded} = spawnScene();
+
+    const query = createTreeQuery(IsSpaceship, AnyOf(InRange(IsHealer), [IsShielded, InRange(IsHealthPickup)]));
+    const tracked = query.track(world);
+    expect(sorted(tracked.update())).toEqual(sorted([nearHealer, nearPickup]));
+
+    unshielded.add(IsShielded);
+    expect(sorted(tracked.update())).toEqual(sorted([nearHealer, nearPickup, unshielded]));
+    expect(tracked.added).toEqual([unshielded]);
+
+    world.queryFirst(IsHealer)!.destroy();
+    expect(sorted(tracked.update())).toEqual(sorted([nearPickup, unshielded]));
+    expect(tracked.removed).toEqual([nearHealer]);
+    expect(sorted(query(world))).toEqual(sorted(tracked.result));
+    tracked.dispose();
+  });
+
+
+  it("rejects invalid branches and counting", () => {
+    expect(() => AnyOf()).toThrow();
+    expect(() => AnyOf(InRange(IsHealer), [])).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => AnyOf([[IsHealer]])).toThrow();
+    expect(() => AtLeast(2, AnyOf(InRange(IsHealer), IsShielded))).toThrow();
+    expect(() => Reachable(AnyOf(InRange(IsHealer)))).toThrow();
+  });
+
+});
@@ -0,0 +1,142 @@
+import {describe, expect, it} from "vitest";
+import {AtLeast, createTreeQuery, createTreeQueryFilter, Exactly, None} from "./tree-query.ts";
+import {createBatchTreeQueryFilter} from "./batch-filter.ts";
+import {
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius,
+  sorted
+} from "./test-helpers.ts";
+
+describe('batch tree query filters', () => {
+
+  let batchCalls = 0;
+
+  const InPickupRange = createBatchTreeQueryFilter(
+    {parent: {Position, Radius}, child: {Position, Radius}},
+    (parents, children, {parent, child, parentIds, childIds}) => {
+      batchCalls++;
+      const matches: number[] = [];
+      for (let i = 0; i < parents.length; i++) {
+        const p = parentIds[i];
+        const px = parent.Position.x[p], py = parent.Position.y[p], radius = parent.Radius.value[p];
+        for (let j = 0; j < children.length; j++) {
+          const c = childIds[j];
+          const dist = Math.sqrt((px - child.Position.x[c]) ** 2 + (py - child.Position.y[c]) ** 2);
+          if (dist - child.Radius.value[c] <= radius) matches.push(i, j);
+        }
+      }
+      return matches;
+    }
+  );
+
+  // the per pair version, to compare with
+  const InPickupRangePairwise = createTreeQueryFilter(inPickupRange, {
+    requires: [Position, Radius],
+    dependencies: [Position, Radius]
+  });
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    for (let i = 0; i < 20; i++) {
+      world.spawn(IsSpaceship, Radius({value: 5}), Position({x: i * 20, y: 0}));
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: i * 7, y: 3}));
+    }
+    for (let i = 0; i < 5; i++) {
+      world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: i * 30, y: 4}));
+    }
+    return world;
+  };
+
+
+  it("matches the same entities as the per pair filters", () => {
+    const world = populate();
+
+    const pairs = [
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius)),
+        createTreeQuery(IsSpaceship, InPickupRangePairwise(IsHealthPickup)),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, None(InPickupRange(IsExplosiveOnContact, Position, Radius))),
+        createTreeQuery(IsSpaceship, None(InPickupRangePairwise(IsExplosiveOnContact))),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, AtLeast(2, InPickupRange(IsHealthPickup, Position, Radius))),
+        createTreeQuery(IsSpaceship, AtLeast(2, InPickupRangePairwise(IsHealthPickup))),
+      ],
+      [
+        createTreeQuery(IsHealthPickup, Position, Radius, Exactly(1, InPickupRange(IsSpaceship, Position, Radius))),
+        createTreeQuery(IsHealthPickup, Exactly(1, InPickupRangePairwise(IsSpaceship))),
+      ],
+      // mixed with ordinary filters, on both sides of the batch filter
+      [
+        createTreeQuery(
+          IsSpaceship, Position, Radius,
+          InPickupRange(IsHealthPickup, Position, Radius, None(InPickupRangePairwise(IsExplosiveOnContact))),
+        ),
+        createTreeQuery(IsSpaceship, InPickupRangePairwise(IsHealthPickup, None(InPickupRangePairwise(IsExplosiveOnContact)))),
+      ],
+      [
+        createTreeQuery(IsSpaceship, InPickupRangePairwise(
+          IsHealthPickup, Position, Radius, None(InPickupRange(IsExplosiveOnContact, Position, Radius))
+        )),
+        createTreeQuery(IsSpaceship, InPickupRangePairwise(IsHealthPickup, None(InPickupRangePairwise(IsExplosiveOnContact)))),
+      ],
+    ];
+
+    for (const [batch, pairwise] of pairs) {
+      const expected = sorted(pairwise(world));
+      expect(expected.length).toBeGreaterThan(0);
+      expect(sorted(batch(world))).toEqual(expected);
+
+      // the matched entities are the same as well
+      const toEntities = (query: typeof batch) => query.bindings(world)
+        .map(binding => [binding.entity, sorted(binding.matches[0].map(match => match.entity))])
+        .sort((a, b) => (a[0] as number) - (b[0] as number));
+      expect(toEntities(batch)).toEqual(toEntities(pairwise));
+    }
+
+    // one call per execution of the filter
+    batchCalls = 0;
+    createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius))(world);
+    expect(batchCalls).toBe(1);
+  });
+
+
+  it("stays in sync when tracked", () => {
+    const world = populate();
+
+    const query = createTreeQuery(
+      IsSpaceship, Position, Radius, None(InPickupRange(IsExplosiveOnContact, Position, Radius))
+    );
+    const tracked = query.track(world);
+    expect(sorted(tracked.update())).toEqual(sorted(query(world)));
+
+    const explosive = world.queryFirst(IsExplosiveOnContact)!;
+    explosive.set(Position, {x: 20, y: 1});
+    expect(sorted(tracked.update())).toEqual(sorted(query(world)));
+    expect(tracked.removed.length).toBe(1);
+    expect(tracked.added.length).toBe(1);
+    tracked.dispose();
+  });
+
+
+  it("rejects invalid input", () => {
+    expect(() => createBatchTreeQueryFilter(
+      {parent: {Position, Radius}, child: {Position}},
+      () => [],
+      {hints: {symmetric: true}}
+    )).toThrow();
+
+    const world = populate();
+    const Broken = createBatchTreeQueryFilter({parent: {}, child: {}}, () => [0]);
+    expect(() => createTreeQuery(IsSpaceship, Broken(IsHealthPickup))(world)).toThrow();
+  });
+
+});
@@ -0,0 +1,144 @@
+import {
+  type Entity,
+  type ExtractStore,
+  getStore,
+  type Trait,
+  type World
+} from "koota";
+import {
+  ENTITY_ID_MASK,
+  existentialQuantifier,
+  type PlannerHints,
+  type QueryFilter,
+  type Quantifier,
+  worldOf
+} from "./tree-query.ts";
+import {createTypedFilterFactory, type TraitMap} from "./typed-filter.ts";
+
+
+export type TraitStores<M extends TraitMap> = { [K in keyof M]: ExtractStore<M[K]> };
+
+/**
+ * What a batch condition gets besides the entities: the stores of the declared traits and the store index of
+ * every parent and child, e.g. `parent.Position.x[parentIds[i]]` is the x position of `parents[i]`.
+ */
+export type BatchStores<P extends TraitMap, C extends TraitMap> = {
+  parent: TraitStores<P>;
+  child: TraitStores<C>;
+  parentIds: number[];
+  childIds: number[];
+};
+
+export type BatchTreeQueryFilterOptions = {
+  // the traits the condition reads besides the declared ones, see `createTreeQueryFilter`
+  dependencies?: Trait[];
+  hints?: PlannerHints;
+};
+
+function storesOf(world: World, traits: TraitMap, keys: string[]) {
+  const stores: Record<string, unknown> = {};
+  for (let k = 0; k < keys.length; k++) stores[keys[k]] = getStore(world, traits[keys[k]]);
+  return stores;
+}
+
+function storeIds(entities: Entity[], ids: number[]) {
+  ids.length = entities.length;
+  for (let i = 0; i < entities.length; i++) ids[i] = entities[i] & ENTITY_ID_MASK;
+  return ids;
+}
+
+
+/**
+ * Factory for tree query filters that handle all (parent, child) pairs of an execution in one call instead of
+ * one condition call per pair. The batch condition gets the parents, the children and the stores of the traits
+ * declared for each side (structure of arrays for schema traits), and returns the matched pairs as flat
+ * (parent index, child index) entries. This way a distance test becomes a tight loop over numbers:
+ * <pre>
+ * const InPickupRange = createBatchTreeQueryFilter(
+ *   {parent: {Position, Radius}, child: {Position, Radius}},
+ *   (parents, children, {parent, child, parentIds, childIds}) => {
+ *     const matches: number[] = [];
+ *     for (let i = 0; i < parents.length; i++) {
+ *       const p = parentIds[i], px = parent.Position.x[p], py = parent.Position.y[p], r = parent.Radius.value[p];
+ *       for (let j = 0; j < children.length; j++) {
+ *         const c = childIds[j];
+ *         const dist = Math.sqrt((px - child.Position.x[c]) ** 2 + (py - child.Position.y[c]) ** 2);
+ *         if (dist - child.Radius.value[c] <= r) matches.push(i, j);
+ *       }
+ *     }
+ *     return matches;
+ *   }
+ * );
+ *
+ * createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius, None(...)));
+ * </pre>
+ * The quantifier of the filter node is applied to the returned matches, so the condition always reports every
+ * match. Like with `createTypedTreeQueryFilter`, the declared traits have to be on the query levels of both
+ * sides (checked at compile time), get added to the queries at runtime and are the default dependencies.
+ * The stores and id lists passed to the condition are re-used between calls, don't hold on to them.
+ * @param traits
+ * @param condition - also gets the world and the params the tree query was called with
+ * @param options
+ */
+export function createBatchTreeQueryFilter<
+  P extends TraitMap,
+  C extends TraitMap,
+  W extends World = World,
+  Params = any
+>(
+  traits: { parent: P; child: C },
+  condition: (parents: Entity[], children: Entity[], stores: BatchStores<P, C>, world: W, params: Params) => number[],
+  options: BatchTreeQueryFilterOptions = {}
+) {
+  const parentKeys = Object.keys(traits.parent);
+  const childKeys = Object.keys(traits.child);
+
+  // re-used between executions
+  const parentIds: number[] = [];
+  const childIds: number[] = [];
+  const matchCounts: number[] = [];
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    world: W,
+    _skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[],
+    _stats?: unknown,
+    params?: Params
+  ) => {
+    const parents2: number[] = [];
+    const children2: number[] = [];
+    const {min, max} = quantifier;
+
+    const stores = {
+      parent: storesOf(worldOf(parents, world), traits.parent, parentKeys) as TraitStores<P>,
+      child: storesOf(worldOf(children, world), traits.child, childKeys) as TraitStores<C>,
+      parentIds: storeIds(parents, parentIds),
+      childIds: storeIds(children, childIds),
+    };
+    const matches = condition(parents, children, stores, world, params!);
+    if (matches.length % 2 !== 0) {
+      throw new Error(`createBatchTreeQueryFilter: the condition has to return (parent index, child index) pairs.`);
+    }
+
+    matchCounts.length = parents.length;
+    matchCounts.fill(0);
+    for (let k = 0; k < matches.length; k += 2) matchCounts[matches[k]]++;
+
+    const passes = (i: number) => matchCounts[i] >= min && matchCounts[i] <= max;
+    for (let i = 0; i < parents.length; i++) {
+      if (passes(i)) parents2.push(parents[i]);
+    }
+    for (let k = 0; k < matches.length; k += 2) {
+      if (!passes(matches[k])) continue;
+      children2.push(children[matches[k + 1]]);
+      pairs?.push(parents[matches[k]], children[matches[k + 1]]);
+    }
+
+    return {parents: parents2, children: children2};
+  };
+
+  return createTypedFilterFactory("createBatchTreeQueryFilter", traits, queryFilter as unknown as QueryFilter, options);
+}
@@ -0,0 +1,109 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, relation, trait} from "koota";
+import {createTreeQuery, createTreeQueryFilter, None, type TreeQueryMatch} from "./tree-query.ts";
+import {createTestWorld, inPickupRange, IsExplosiveOnContact, IsSpaceship, Position, Radius} from "./test-helpers.ts";
+
+describe('bindings', () => {
+
+  const A = trait();
+  const B = trait();
+  const C = trait();
+
+  const IsParentOf = relation();
+
+  const HasChild = createTreeQueryFilter((e1, e2, _world) => {
+    return e1.has(IsParentOf(e2))
+  });
+
+  const entitiesOf = (matches: TreeQueryMatch[]) => matches.map(match => match.entity);
+
+
+  it("returns the matched entities of every edge", () => {
+    const world = createTestWorld();
+
+    const c1 = world.spawn(C);
+    const c2 = world.spawn(C);
+    const b1 = world.spawn(B, IsParentOf(c1), IsParentOf(c2));
+    const b2 = world.spawn(B); // no grandchildren, never shows up
+    const a = world.spawn(A, IsParentOf(b1), IsParentOf(b2));
+    world.spawn(A, IsParentOf(b2)); // doesn't match at all
+
+    const query = createTreeQuery(A, HasChild(B, HasChild(C)));
+    const bindings = query.bindings(world);
+
+    expect(bindings.length).toBe(1);
+    expect(bindings[0].entity).toBe(a);
+
+    const [bMatches] = bindings[0].matches;
+    expect(entitiesOf(bMatches)).toEqual([b1]);
+
+    const [cMatches] = bMatches[0].matches;
+    expect(entitiesOf(cMatches).length).toBe(2);
+    expect(entitiesOf(cMatches)).toContain(c1);
+    expect(entitiesOf(cMatches)).toContain(c2);
+    expect(cMatches[0].matches).toEqual([]);
+
+    // the regular call is unaffected
+    expect(query(world)).toEqual([a]);
+  });
+
+
+  it("lists sibling filters in the order they were passed", () => {
+    const world = createWorld();
+
+    const b = world.spawn(B);
+    const c = world.spawn(C);
+    const a = world.spawn(A, IsParentOf(b), IsParentOf(c));
+
+    const query = createTreeQuery(A, HasChild(B), None(HasChild(A)), HasChild(C));
+    const [binding] = query.bindings(world);
+
+    expect(binding.entity).toBe(a);
+    expect(binding.matches.length).toBe(3);
+    expect(entitiesOf(binding.matches[0])).toEqual([b]);
+    expect(binding.matches[1]).toEqual([]); // negated filters never match anything
+    expect(entitiesOf(binding.matches[2])).toEqual([c]);
+  });
+
+
+  it("returns every pair, not just the first match (space wars)", () => {
+    const world = createWorld();
+
+    const Health = trait({value: 100});
+
+    const InPickupRange = createTreeQueryFilter(inPickupRange);
+
+    const ship1 = world.spawn(IsSpaceship, Health, Radius({value: 5}), Position({x: 0, y: 0}));
+    const ship2 = world.spawn(IsSpaceship, Health, Radius({value: 5}), Position({x: 10, y: 0}));
+    const ship3 = world.spawn(IsSpaceship, Health, Radius({value: 5}), Position({x: 100, y: 0}));
+
+    // the first one touches both ships, the second one only ship2
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 5, y: 0}));
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 15, y: 0}));
+
+    const explosivesTouchingShips = createTreeQuery(
+      IsExplosiveOnContact, Radius, Position,
+      InPickupRange(IsSpaceship, Health, Radius, Position)
+    );
+
+    for (const {matches: [ships]} of explosivesTouchingShips.bindings(world)) {
+      for (const {entity: ship} of ships) {
+        ship.set(Health, prev => ({value: prev.value - 10}));
+      }
+    }
+
+    expect(ship1.get(Health)!.value).toBe(90);
+    expect(ship2.get(Health)!.value).toBe(80);
+    expect(ship3.get(Health)!.value).toBe(100);
+  });
+
+
+  it("returns no bindings if the query doesn't match", () => {
+    const world = createWorld();
+    world.spawn(A);
+
+    const query = createTreeQuery(A, HasChild(B));
+    expect(query.bindings(world)).toEqual([]);
+  });
+
+});
@@ -0,0 +1,137 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, trait, type Entity} from "koota";
+import {AnyOf, createTreeQuery, createTreeQueryFilter, From, None} from "./tree-query.ts";
+import {createBatchTreeQueryFilter} from "./batch-filter.ts";
+import {createTestWorld, inPickupRange, Position, Radius} from "./test-helpers.ts";
+
+describe('cross-world and external data joins', () => {
+
+  const IsActor = trait();
+  const IsZone = trait();
+  const Hazard = trait();
+  const IsVent = trait();
+
+  let conditionCalls = 0;
+
+  const inRange = (eid1: Entity, eid2: Entity) => {
+    conditionCalls++;
+    return inPickupRange(eid1, eid2);
+  };
+
+  const InRange = createTreeQueryFilter(inRange, {requires: [Position, Radius]});
+
+  // actors in one world, the zones of the static level in another one
+  const populate = () => {
+    const actorWorld = createTestWorld();
+    const levelWorld = createWorld();
+
+    const actors = [0, 100, 200].map(x => actorWorld.spawn(IsActor, Radius({value: 1}), Position({x, y: 0})));
+    const zones = [
+      levelWorld.spawn(IsZone, Hazard, Radius({value: 10}), Position({x: 0, y: 0})),
+      levelWorld.spawn(IsZone, Radius({value: 10}), Position({x: 100, y: 0})),
+      levelWorld.spawn(IsZone, Hazard, Radius({value: 10}), Position({x: 200, y: 0})),
+    ];
+    return {actorWorld, levelWorld, actors, zones};
+  };
+
+
+  it("joins the entities of another world", () => {
+    const {actorWorld, levelWorld, actors, zones} = populate();
+    // zones in the actor world don't count
+    actorWorld.spawn(IsZone, Hazard, Radius({value: 10}), Position({x: 100, y: 0}));
+
+    const inHazard = createTreeQuery(IsActor, From(levelWorld, InRange(IsZone, Hazard)));
+    expect(inHazard(actorWorld)).toEqual([actors[0], actors[2]]);
+
+    const [binding] = inHazard.bindings(actorWorld);
+    expect(binding.entity).toBe(actors[0]);
+    expect(binding.matches[0].map(match => match.entity)).toEqual([zones[0]]);
+
+    // the levels below stay in the other world, negated or not
+    levelWorld.spawn(IsVent, Radius({value: 1}), Position({x: 205, y: 0}));
+    actorWorld.spawn(IsVent, Radius({value: 1}), Position({x: 5, y: 0}));
+    const vented = createTreeQuery(IsActor, From(levelWorld, InRange(IsZone, InRange(IsVent))));
+    expect(vented(actorWorld)).toEqual([actors[2]]);
+    const unvented = createTreeQuery(IsActor, From(levelWorld, InRange(IsZone, Hazard, None(InRange(IsVent)))));
+    expect(unvented(actorWorld)).toEqual([actors[0]]);
+
+    // filters reading trait stores get the ones of the other world
+    const InRangeBatch = createBatchTreeQueryFilter(
+      {parent: {Position, Radius}, child: {Position, Radius}},
+      (parents, children, {parent, child, parentIds, childIds}) => {
+        const matches: number[] = [];
+        for (let i = 0; i < parents.length; i++) {
+          const p = parentIds[i];
+          for (let j = 0; j < children.length; j++) {
+            const c = childIds[j];
+            const dist = Math.abs(parent.Position.x[p] - child.Position.x[c]);
+            if (dist - child.Radius.value[c] <= parent.Radius.value[p]) matches.push(i, j);
+          }
+        }
+        return matches;
+      }
+    );
+    const batch = createTreeQuery(IsActor, Position, Radius, From(levelWorld, InRangeBatch(IsZone, Hazard, Position, Radius)));
+    expect(batch(actorWorld)).toEqual([actors[0], actors[2]]);
+  });
+
+
+  it("takes the entities of a provider function", () => {
+    const {actorWorld, levelWorld, actors, zones} = populate();
+    let providerCalls = 0;
+    const nearbyZones = (_world: unknown, params: { x: number }) => {
+      providerCalls++;
+      return levelWorld.query(IsZone).filter(zone => Math.abs(zone.get(Position)!.x - params.x) < 150);
+    };
+
+    const inZone = createTreeQuery<{ x: number }>(IsActor, From(nearbyZones, InRange()));
+    expect(inZone(actorWorld, {x: 0})).toEqual([actors[0], actors[1]]);
+    expect(inZone(actorWorld, {x: 200})).toEqual([actors[1], actors[2]]);
+    expect(providerCalls).toBe(2);
+
+    // the traits on the level aren't checked, the required ones included
+    const plain = createTreeQuery(IsActor, From(() => [zones[1]], InRange(Hazard)));
+    expect(plain(actorWorld)).toEqual([actors[1]]);
+  });
+
+
+  it("keeps tracked queries up to date with the other worlds", () => {
+    const {actorWorld, levelWorld, actors, zones} = populate();
+    const InRangeTracked = createTreeQueryFilter(inRange, {dependencies: [Position, Radius], requires: [Position, Radius]});
+
+    const tracked = createTreeQuery(IsActor, From(levelWorld, InRangeTracked(IsZone, Hazard))).track(actorWorld);
+    expect(tracked.update()).toEqual([actors[0], actors[2]]);
+
+    // nothing changed, nothing gets compared
+    conditionCalls = 0;
+    expect(tracked.update()).toEqual([actors[0], actors[2]]);
+    expect(conditionCalls).toBe(0);
+
+    zones[1].add(Hazard);
+    expect(tracked.update()).toEqual([actors[0], actors[1], actors[2]]);
+    zones[0].set(Position, {x: 50, y: 0});
+    expect(tracked.update()).toEqual([actors[1], actors[2]]);
+    expect(tracked.removed).toEqual([actors[0]]);
+    tracked.dispose();
+
+    // provided entities are compared on every update
+    let provided: Entity[] = [zones[2]];
+    const trackedProvider = createTreeQuery(IsActor, From(() => provided, InRangeTracked())).track(actorWorld);
+    expect(trackedProvider.update()).toEqual([actors[2]]);
+    provided = [zones[1]];
+    expect(trackedProvider.update()).toEqual([actors[1]]);
+    zones[1].set(Position, {x: 300, y: 0});
+    expect(trackedProvider.update()).toEqual([]);
+    trackedProvider.dispose();
+  });
+
+
+  it("rejects invalid sources", () => {
+    const levelWorld = createWorld();
+    // @ts-expect-error: testing invalid input
+    expect(() => From({}, InRange(IsZone))).toThrow();
+    expect(() => From(levelWorld, From(levelWorld, InRange(IsZone)))).toThrow();
+    expect(() => From(levelWorld, AnyOf(InRange(IsZone)))).toThrow();
+  });
+
+});
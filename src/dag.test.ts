@@ -0,0 +1,185 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, trait, type Entity, type Trait} from "koota";
+import {createTreeQuery, createTreeQueryFilter, None, type QueryFilterNode, Shared} from "./tree-query.ts";
+import {
+  createRandom,
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius,
+  sorted
+} from "./test-helpers.ts";
+
+describe('wide trees and shared sub-queries', () => {
+
+  const A = trait();
+  const B = trait();
+  const C = trait();
+  const D = trait();
+  const E = trait();
+
+  const IsTurret = trait();
+
+  const InRange = createTreeQueryFilter(inPickupRange, {requires: [Position, Radius]});
+
+  // a query tree as data, to build the tree query and to evaluate it naively, entity by entity
+  type Level = { trait: Trait; filters: Level[] };
+
+  const toFilterNode = (level: Level): QueryFilterNode => InRange(level.trait, ...level.filters.map(toFilterNode));
+  const toTreeQuery = (level: Level) => createTreeQuery(level.trait, ...level.filters.map(toFilterNode));
+
+  const naive = (world: ReturnType<typeof createWorld>, level: Level) => {
+    const passes = (entity: Entity, level: Level): boolean => level.filters.every(filter => {
+      return world.query(filter.trait, Position, Radius)
+        .some(child => inPickupRange(entity, child) && passes(child, filter));
+    });
+    return world.query(level.trait, Position, Radius).filter(entity => passes(entity, level));
+  };
+
+
+  it("evaluates every filter of wide trees", () => {
+    const shapes: Level[] = [
+      // two siblings with children of their own
+      {trait: A, filters: [{trait: B, filters: [{trait: C, filters: []}]}, {trait: D, filters: [{trait: E, filters: []}]}]},
+      // wide on every level
+      {
+        trait: A, filters: [
+          {trait: B, filters: [{trait: C, filters: []}, {trait: D, filters: []}, {trait: E, filters: []}]},
+          {trait: C, filters: [{trait: D, filters: [{trait: E, filters: []}]}, {trait: B, filters: []}]},
+          {trait: E, filters: []},
+        ],
+      },
+      // the same trait on both sides of a tree
+      {trait: A, filters: [{trait: B, filters: [{trait: A, filters: []}]}, {trait: B, filters: [{trait: C, filters: []}]}]},
+    ];
+
+    for (let seed = 1; seed <= 5; seed++) {
+      const world = createWorld();
+      const random = createRandom(seed);
+      for (const tag of [A, B, C, D, E]) {
+        for (let i = 0; i < 30; i++) {
+          world.spawn(tag, Radius({value: 1 + random() * 4}), Position({x: random() * 100, y: random() * 20}));
+        }
+      }
+
+      for (const shape of shapes) {
+        const query = toTreeQuery(shape);
+        const expected = sorted(naive(world, shape));
+        expect(sorted(query(world))).toEqual(expected);
+        expect(sorted(query.bindings(world).map(binding => binding.entity))).toEqual(expected);
+        expect(sorted(query.track(world).update())).toEqual(expected);
+      }
+    }
+  });
+
+
+  it("narrows the children of siblings down to the parents that passed all of them", () => {
+    const world = createWorld();
+    const ship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 100, y: 0}));
+
+    // both spaceships have a safe pickup, but only the first one has a turret
+    const pickup = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 5, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 105, y: 0}));
+    world.spawn(IsTurret, Radius({value: 1}), Position({x: -5, y: 0}));
+
+    const query = createTreeQuery(
+      IsSpaceship,
+      InRange(IsHealthPickup, None(InRange(IsExplosiveOnContact))),
+      InRange(IsTurret)
+    );
+    const explanation = query.explain(world);
+    expect(explanation.result).toEqual([ship]);
+
+    // the pickup of the other spaceship is gone as well. Nodes without filters of their own (like the turrets)
+    // are left as they are, their filter stops at the first match.
+    const [pickups, turrets] = explanation.root.filters;
+    expect(pickups.node.queried).toBe(2);
+    expect(pickups.node.remaining).toBe(1);
+    expect(turrets.node.remaining).toBe(1);
+    expect(query.bindings(world)[0].matches[0].map(match => match.entity)).toEqual([pickup]);
+  });
+
+
+  it("shares the node of a shared sub-query between its filters", () => {
+    const world = createTestWorld();
+
+    // the first spaceship has a safe pickup in range, but its turret only covers another one
+    const ship1 = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: -5, y: 0}));
+    world.spawn(IsTurret, Radius({value: 15}), Position({x: 18, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 30, y: 0}));
+    // the second one has a safe pickup that a turret covers
+    const ship2 = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 100, y: 0}));
+    const pickup2 = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 105, y: 0}));
+    const turret = world.spawn(IsTurret, Radius({value: 10}), Position({x: 108, y: 0}));
+    // the third one has a pickup and a turret, but the pickup isn't safe
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 200, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 205, y: 0}));
+    world.spawn(IsTurret, Radius({value: 10}), Position({x: 208, y: 0}));
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 206, y: 0}));
+
+    const SafePickup = Shared(IsHealthPickup, None(InRange(IsExplosiveOnContact)));
+    const query = createTreeQuery(IsSpaceship, InRange(SafePickup), InRange(IsTurret, InRange(SafePickup)));
+    expect(query(world)).toEqual([ship2]);
+
+    // as a tree, the two pickups don't have to be the same ones
+    const tree = createTreeQuery(
+      IsSpaceship,
+      InRange(IsHealthPickup, None(InRange(IsExplosiveOnContact))),
+      InRange(IsTurret, InRange(IsHealthPickup, None(InRange(IsExplosiveOnContact))))
+    );
+    expect(sorted(tree(world))).toEqual(sorted([ship1, ship2]));
+
+    // the shared node shows up in both places
+    const [binding] = query.bindings(world);
+    expect(binding.entity).toBe(ship2);
+    expect(binding.matches[0].map(match => match.entity)).toEqual([pickup2]);
+    expect(binding.matches[1].map(match => match.entity)).toEqual([turret]);
+    expect(binding.matches[1][0].matches[0].map(match => match.entity)).toEqual([pickup2]);
+
+    const explanation = query.explain(world);
+    expect(explanation.root.filters[0].node.remaining).toBe(1);
+    expect(query.plan(world).length).toBe(4);
+
+    // tracked queries keep up with the shared node
+    const tracked = query.track(world);
+    expect(tracked.update()).toEqual([ship2]);
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 104, y: 0}));
+    expect(tracked.update()).toEqual([]);
+    tracked.dispose();
+  });
+
+
+  it("keeps limits when the shared node drops roots that passed already", () => {
+    const world = createWorld();
+    const spawn = (trait: Trait, x: number) => world.spawn(trait, Radius({value: 5}), Position({x, y: 0}));
+
+    [15, 0, 50].forEach(x => spawn(A, x));
+    [22, 3, 50].forEach(x => spawn(B, x));
+    [32, 3, 10].forEach(x => spawn(C, x));
+
+    const S = Shared(B);
+    const query = createTreeQuery(A, InRange(S), InRange(C, InRange(S)));
+    const result = query(world);
+    expect(result.length).toBeGreaterThan(0);
+
+    // the first roots that pass the last filter on the root level don't make it through the shared node
+    expect(query(world, undefined, {limit: 1})).toEqual(result.slice(0, 1));
+    expect(query.queryFirst(world)).toBe(result[0]);
+    expect(query.bindings(world, undefined, {limit: 1}).map(binding => binding.entity)).toEqual(result.slice(0, 1));
+  });
+
+
+  it("rejects invalid shared sub-queries", () => {
+    expect(() => Shared()).toThrow();
+    const SafePickup = Shared(IsHealthPickup, None(InRange(IsExplosiveOnContact)));
+    expect(() => InRange(SafePickup, IsTurret)).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => Shared(SafePickup)).toThrow();
+  });
+
+});
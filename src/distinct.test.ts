@@ -0,0 +1,151 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, trait, type Entity} from "koota";
+import {
+  All,
+  AnyOf,
+  AtLeast,
+  createTreeQuery,
+  createTreeQueryFilter,
+  Exactly,
+  ExcludeSelf,
+  None,
+  Reachable
+} from "./tree-query.ts";
+import {createTestWorld, entitiesOf, Position} from "./test-helpers.ts";
+
+describe('self-matches and distinct bindings', () => {
+
+  const IsActor = trait();
+  const IsLeader = trait();
+
+  // every actor is in range of itself
+  const inRange = (eid1: Entity, eid2: Entity) => Math.abs(eid1.get(Position)!.x - eid2.get(Position)!.x) <= 10;
+  const InRange = createTreeQueryFilter(inRange, {requires: [Position]});
+
+  // a pair, a chain of three (the ends are out of range of each other) and one on its own
+  const populate = () => {
+    const world = createTestWorld();
+
+    const actors = [0, 5, 100, 105, 112, 300].map(x => world.spawn(IsActor, Position({x, y: 0})));
+    actors[5].add(IsLeader);
+    return {world, actors};
+  };
+
+
+  it("keeps filter nodes from matching themselves", () => {
+    const {world, actors} = populate();
+    const [a0, a1, a2, a3, a4, a5] = actors;
+
+    expect(createTreeQuery(IsActor, InRange(IsActor))(world)).toEqual(actors);
+    expect(createTreeQuery(IsActor, ExcludeSelf(InRange(IsActor)))(world)).toEqual([a0, a1, a2, a3, a4]);
+    expect(createTreeQuery(IsActor, None(ExcludeSelf(InRange(IsActor))))(world)).toEqual([a5]);
+
+    // quantifiers count the others
+    expect(createTreeQuery(IsActor, AtLeast(2, InRange(IsActor)))(world)).toEqual([a0, a1, a2, a3, a4]);
+    expect(createTreeQuery(IsActor, AtLeast(2, ExcludeSelf(InRange(IsActor))))(world)).toEqual([a3]);
+    expect(createTreeQuery(IsActor, ExcludeSelf(Exactly(1, InRange(IsActor))))(world)).toEqual([a0, a1, a2, a4]);
+
+    const [binding] = createTreeQuery(IsActor, ExcludeSelf(InRange(IsActor))).bindings(world);
+    expect(entitiesOf([binding])).toEqual([[a0, [[[a1, []]]]]]);
+
+    // All: in range of every other actor
+    const pair = createWorld();
+    const [b0, b1] = [0, 5].map(x => pair.spawn(IsActor, Position({x, y: 0})));
+    const everyone = createTreeQuery(IsActor, All(ExcludeSelf(InRange(IsActor))));
+    expect(everyone(pair)).toEqual([b0, b1]);
+    pair.spawn(IsActor, Position({x: 300, y: 0}));
+    expect(everyone(pair)).toEqual([]);
+
+    // tracked queries agree
+    const InRangeTracked = createTreeQueryFilter(inRange, {requires: [Position], dependencies: [Position]});
+    const crowded = createTreeQuery(IsActor, AtLeast(2, ExcludeSelf(InRangeTracked(IsActor))));
+    const tracked = crowded.track(world);
+    expect(tracked.update()).toEqual([a3]);
+    a5.set(Position, {x: 107, y: 0});
+    expect(tracked.update()).toEqual([a2, a3, a4, a5]);
+    expect(tracked.update()).toEqual(crowded(world));
+    tracked.dispose();
+  });
+
+
+  it("binds every entity at most once along a path", () => {
+    const {world, actors} = populate();
+    const [a0, a1, a2, a3, a4, a5] = actors;
+    const distinct = {distinct: true};
+
+    // a chain of three: with self-matches, and back and forth (A near B near A)
+    const chain = createTreeQuery(IsActor, InRange(IsActor, InRange(IsActor)));
+    expect(chain(world)).toEqual(actors);
+    expect(createTreeQuery(IsActor, ExcludeSelf(InRange(IsActor, ExcludeSelf(InRange(IsActor)))))(world))
+      .toEqual([a0, a1, a2, a3, a4]);
+    expect(chain(world, undefined, distinct)).toEqual([a2, a4]);
+    expect(chain(world, undefined, {distinct: true, limit: 1})).toEqual([a2]);
+    expect(chain.into(world, [a0], undefined, distinct)).toEqual([a2, a4]);
+    expect(chain.orderBy(entity => -entity.get(Position)!.x)(world, undefined, distinct)).toEqual([a4, a2]);
+
+    expect(entitiesOf(chain.bindings(world, undefined, distinct))).toEqual([
+      [a2, [[[a3, [[[a4, []]]]]]]],
+      [a4, [[[a3, [[[a2, []]]]]]]],
+    ]);
+
+    // the entities above don't count for the quantifiers either: the bounds are checked with the matches that are left
+    const onlyNeighbour = createTreeQuery(IsActor, InRange(IsActor, None(InRange(IsActor))));
+    expect(onlyNeighbour(world)).toEqual([]);
+    expect(onlyNeighbour(world, undefined, distinct)).toEqual([a0, a1, a3]);
+    const single = createTreeQuery(IsActor, Exactly(1, InRange(IsActor)));
+    expect(single(world)).toEqual([a5]);
+    expect(single(world, undefined, distinct)).toEqual([a0, a1, a2, a4]);
+
+    // the branches of AnyOf(...) stand for the entity itself
+    const leaderOrChain = createTreeQuery(IsActor, AnyOf(IsLeader, InRange(IsActor, InRange(IsActor))));
+    expect(leaderOrChain(world, undefined, distinct)).toEqual([a2, a4, a5]);
+    const [, , leader] = entitiesOf(leaderOrChain.bindings(world, undefined, distinct)) as unknown[];
+    expect(leader).toEqual([a5, [[[a5, [[[a5, []]], []]]]]]);
+  });
+
+
+  it("binds every entity at most once across sibling filters", () => {
+    const {world, actors} = populate();
+    const [a0, , a2, a3, a4, a5] = actors;
+    const distinct = {distinct: true};
+
+    // two neighbours: only the middle of the chain has two others in range
+    const twoNeighbours = createTreeQuery(IsActor, InRange(IsActor), InRange(IsActor));
+    expect(twoNeighbours(world)).toEqual(actors);
+    expect(twoNeighbours(world, undefined, distinct)).toEqual([a3]);
+    expect(entitiesOf(twoNeighbours.bindings(world, undefined, distinct))).toEqual([[a3, [[[a2, []]], [[a4, []]]]]]);
+
+    // a single leader can't be near two actors at once, nor under a sibling and a cousin
+    const twoLeaders = createTreeQuery(IsActor, InRange(IsLeader), InRange(IsLeader));
+    const leaderAndCousin = createTreeQuery(IsActor, InRange(IsLeader), InRange(IsActor, InRange(IsLeader)));
+    a0.set(Position, {x: 295, y: 0});
+    expect(twoLeaders(world)).toEqual([a0, a5]);
+    expect(twoLeaders(world, undefined, distinct)).toEqual([]);
+    expect(twoLeaders.bindings(world, undefined, distinct)).toEqual([]);
+    expect(leaderAndCousin(world, undefined, distinct)).toEqual([]);
+
+    // the first choice takes the leader the second filter needs, the search backtracks
+    const IsScout = trait();
+    const small = createWorld();
+    const [root, leader1, leader2, scout] = [0, 5, 8, -4].map(x => small.spawn(IsActor, Position({x, y: 0})));
+    leader1.add(IsLeader);
+    leader2.add(IsLeader);
+    scout.add(IsScout);
+    const scouted = createTreeQuery(IsActor, InRange(IsLeader), InRange(IsLeader, InRange(IsScout)));
+    expect(scouted(small, undefined, distinct)).toEqual([root]);
+    expect(entitiesOf(scouted.bindings(small, undefined, distinct))).toEqual([
+      [root, [[[leader2, []]], [[leader1, [[[scout, []]]]]]]],
+    ]);
+  });
+
+
+  it("rejects invalid nodes", () => {
+    // @ts-expect-error: testing invalid input
+    expect(() => ExcludeSelf(IsActor)).toThrow();
+    expect(() => ExcludeSelf(ExcludeSelf(InRange()))).toThrow();
+    expect(() => ExcludeSelf(Reachable(InRange()))).toThrow();
+    expect(() => Reachable(ExcludeSelf(InRange()))).toThrow();
+    expect(() => ExcludeSelf(AnyOf(InRange()))).toThrow();
+  });
+
+});
@@ -0,0 +1,115 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, Not, trait} from "koota";
+import {createTreeQuery, None} from "./tree-query.ts";
+import {createSpatialTreeQueryFilter} from "./spatial-filter.ts";
+import {
+  createTestWorld,
+  InPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius
+} from "./test-helpers.ts";
+
+describe('explain', () => {
+
+  const IsDestroyed = trait();
+
+
+  it("tells which filter emptied the result", () => {
+    const world = createTestWorld();
+
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 100, y: 0}));
+    const pickup = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 50, y: 0}));
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 50, y: 1}));
+
+    // "why doesn't this pickup trigger?"
+    const query = createTreeQuery(
+      IsSpaceship, Not(IsDestroyed),
+      InPickupRange(IsHealthPickup, None(InPickupRange(IsExplosiveOnContact)))
+    );
+    const explanation = query.explain(world);
+
+    expect(explanation.result).toEqual([]);
+    expect(explanation.time).toBeGreaterThanOrEqual(0);
+
+    const {root} = explanation;
+    expect(root.traits).toEqual([IsSpaceship, root.traits[1], Position, Radius]);
+    expect(root.queried).toBe(2);
+
+    // the pickup has an explosive next to it: the nested negation lets no pickup through
+    const [pickupFilter] = root.filters;
+    const [explosiveFilter] = pickupFilter.node.filters;
+    expect(pickupFilter.node.traits).toEqual([IsHealthPickup, Position, Radius]);
+    expect(explosiveFilter).toMatchObject({
+      path: [0, 0],
+      quantifier: {min: 0, max: 0},
+      step: 0,
+      direction: 'parent-driven',
+      parentsIn: 1,
+      childrenIn: 1,
+      parentsOut: 0,
+      childrenOut: 0,
+      conditionCalls: 1,
+    });
+    expect(explanation.emptiedBy).toEqual([0, 0]);
+
+    // the pickup filter never ran
+    expect(pickupFilter.step).toBe(-1);
+    expect(pickupFilter.conditionCalls).toBe(0);
+
+    // without the explosive, the spaceships are simply too far away
+    world.queryFirst(IsExplosiveOnContact)!.destroy();
+    const second = query.explain(world);
+    expect(second.emptiedBy).toEqual([0]);
+    expect(second.root.filters[0]).toMatchObject({
+      step: 1,
+      parentsIn: 2,
+      childrenIn: 1,
+      parentsOut: 0,
+      conditionCalls: 2,
+    });
+
+    // move the pickup into range
+    pickup.set(Position, {x: 95, y: 0});
+    const third = query.explain(world);
+    expect(third.result.length).toBe(1);
+    expect(third.emptiedBy).toBe(null);
+    expect(third.root.filters[0].parentsOut).toBe(1);
+  });
+
+
+  it("reports emptied results of filters that don't stop the execution", () => {
+    const world = createWorld();
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 5, y: 0}));
+
+    // the negation runs to the end, so the root filter that emptied the result gets reported
+    const query = createTreeQuery(IsSpaceship, None(InPickupRange(IsExplosiveOnContact)));
+    const explanation = query.explain(world);
+    expect(explanation.result).toEqual([]);
+    expect(explanation.emptiedBy).toEqual([0]);
+    expect(explanation.root.filters[0].step).toBe(0);
+  });
+
+
+  it("counts condition calls of spatial filters", () => {
+    const world = createWorld();
+    const InRange = createSpatialTreeQueryFilter({
+      position: Position,
+      radius: Radius,
+      condition: (_e1, e2) => !e2.has(IsDestroyed),
+    });
+
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 5, y: 0}), IsDestroyed);
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 500, y: 0}));
+
+    const explanation = createTreeQuery(IsSpaceship, InRange(IsHealthPickup)).explain(world);
+    expect(explanation.root.filters[0].conditionCalls).toBe(1);
+    expect(explanation.emptiedBy).toEqual([0]);
+  });
+
+});
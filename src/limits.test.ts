@@ -0,0 +1,165 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, type Entity} from "koota";
+import {
+  AtLeast,
+  createScoredTreeQueryFilter,
+  createTreeQuery,
+  createTreeQueryFilter,
+  None
+} from "./tree-query.ts";
+import {
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius
+} from "./test-helpers.ts";
+
+describe('limits, ordering and scored filters', () => {
+
+  let conditionCalls = 0;
+
+  const InPickupRange = createTreeQueryFilter((eid1, eid2) => {
+    conditionCalls++;
+    return inPickupRange(eid1, eid2);
+  }, {requires: [Position, Radius]});
+
+  const distance = (eid1: Entity, eid2: Entity) => {
+    const myPos = eid1.get(Position)!;
+    const otherPos = eid2.get(Position)!;
+    return Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
+  };
+
+  const NearestInRange = createScoredTreeQueryFilter((eid1, eid2) => {
+    const dist = distance(eid1, eid2);
+    return dist <= eid1.get(Radius)!.value ? dist : Infinity;
+  }, {requires: [Position, Radius]});
+
+  // 100 spaceships in a row, each with a pickup next to it, every other one also with an explosive
+  const populate = () => {
+    const world = createTestWorld();
+
+    const ships: Entity[] = [];
+    for (let i = 0; i < 100; i++) {
+      ships.push(world.spawn(IsSpaceship, Radius({value: 5}), Position({x: i * 100, y: 0})));
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: i * 100 + 3, y: 0}));
+      if (i % 2 === 1) world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: i * 100, y: 3}));
+    }
+    return {world, ships};
+  };
+
+
+  it("stops once enough root entities passed", () => {
+    const {world, ships} = populate();
+    const query = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup));
+
+    conditionCalls = 0;
+    expect(query(world).length).toBe(100);
+    const allCalls = conditionCalls;
+
+    conditionCalls = 0;
+    const limited = query(world, undefined, {limit: 5});
+    expect(limited).toEqual(query(world).slice(0, 5));
+    expect(limited.every(ship => ships.includes(ship))).toBe(true);
+
+    conditionCalls = 0;
+    query(world, undefined, {limit: 5});
+    expect(conditionCalls).toBeLessThan(allCalls / 10);
+
+    conditionCalls = 0;
+    expect(query.queryFirst(world)).toBe(query(world)[0]);
+    conditionCalls = 0;
+    query.queryFirst(world);
+    expect(conditionCalls).toBeLessThanOrEqual(100);
+
+    // the limit applies to the roots that passed every filter
+    const safe = createTreeQuery(IsSpaceship, None(InPickupRange(IsExplosiveOnContact)), InPickupRange(IsHealthPickup));
+    const safeShips = safe(world);
+    expect(safeShips.length).toBe(50);
+    expect(safe(world, undefined, {limit: 7})).toEqual(safeShips.slice(0, 7));
+    expect(safe(world, undefined, {limit: 1000})).toEqual(safeShips);
+    expect(safe(world, undefined, {limit: 0})).toEqual([]);
+
+    // nothing to find
+    expect(createTreeQuery(IsSpaceship, AtLeast(2, InPickupRange(IsHealthPickup))).queryFirst(world)).toBeUndefined();
+
+    // bindings are limited as well
+    const bindings = query.bindings(world, undefined, {limit: 2});
+    expect(bindings.map(binding => binding.entity)).toEqual(query(world).slice(0, 2));
+    expect(bindings.every(binding => binding.matches[0].length === 1)).toBe(true);
+  });
+
+
+  it("orders the result by a score", () => {
+    const {world, ships} = populate();
+    const target = world.spawn(Position({x: 4210, y: 0}));
+
+    const query = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup));
+    const nearest = query.orderBy(ship => distance(ship, target));
+
+    expect(nearest.queryFirst(world)).toBe(ships[42]);
+    expect(nearest(world, undefined, {limit: 3})).toEqual([ships[42], ships[43], ships[41]]);
+    expect([...nearest(world)].sort((a, b) => a - b)).toEqual([...query(world)].sort((a, b) => a - b));
+
+    const bindings = nearest.bindings(world, undefined, {limit: 2});
+    expect(bindings.map(binding => binding.entity)).toEqual([ships[42], ships[43]]);
+
+    // the params are passed on to the score
+    const byParam = createTreeQuery<{ x: number }>(IsSpaceship, InPickupRange(IsHealthPickup))
+      .orderBy((ship, _world, params) => Math.abs(ship.get(Position)!.x - params.x));
+    expect(byParam.queryFirst(world, {x: 1000})).toBe(ships[10]);
+  });
+
+
+  it("matches the best scoring children only", () => {
+    const world = createWorld();
+    const ship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    const far = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 8, y: 0}));
+    const near = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 2, y: 0}));
+    const middle = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 0, y: 5}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 50, y: 0}));
+    const lonely = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 500, y: 0}));
+
+    const query = createTreeQuery(IsSpaceship, NearestInRange(IsHealthPickup));
+    expect(query(world)).toEqual([ship]);
+    const [binding] = query.bindings(world);
+    expect(binding.matches[0].map(match => match.entity)).toEqual([near]);
+
+    const TwoNearest = createScoredTreeQueryFilter(
+      (eid1, eid2) => distance(eid1, eid2) <= eid1.get(Radius)!.value ? distance(eid1, eid2) : Infinity,
+      {requires: [Position, Radius], best: 2}
+    );
+    const [two] = createTreeQuery(IsSpaceship, TwoNearest(IsHealthPickup)).bindings(world);
+    expect(two.matches[0].map(match => match.entity)).toEqual([near, middle]);
+    const [three] = createTreeQuery(IsSpaceship, AtLeast(2, TwoNearest(IsHealthPickup))).bindings(world);
+    expect(three.entity).toBe(ship);
+
+    expect(createTreeQuery(IsSpaceship, None(NearestInRange(IsHealthPickup)))(world)).toEqual([lonely]);
+
+    // the nearest pickup changes
+    far.set(Position, {x: 1, y: 0});
+    const [moved] = query.bindings(world);
+    expect(moved.matches[0].map(match => match.entity)).toEqual([far]);
+
+    // tracked queries re-evaluate the filter on every update
+    const tracked = query.track(world);
+    expect(tracked.update()).toEqual([ship]);
+    far.set(Position, {x: 505, y: 0});
+    expect(tracked.update()).toEqual([ship, lonely]);
+    expect(tracked.added).toEqual([lonely]);
+    tracked.dispose();
+  });
+
+
+  it("rejects invalid options", () => {
+    const world = createWorld();
+    const query = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup));
+    expect(() => query(world, undefined, {limit: -1})).toThrow();
+    expect(() => query(world, undefined, {limit: 1.5})).toThrow();
+    expect(() => createScoredTreeQueryFilter(() => 0, {best: 0})).toThrow();
+    expect(() => createScoredTreeQueryFilter(() => 0, {hints: {symmetric: true}})).toThrow();
+  });
+
+});
@@ -1,5 +1,5 @@
 import {createWorld, trait} from "koota";
-import {createTreeQuery, createTreeQueryFilter} from "./tree-query.ts";
+import {createTreeQuery, createTreeQueryFilter, ExcludeSelf} from "./tree-query.ts";
 
 
 /*
@@ -12,15 +12,14 @@ Check the tests for real examples:
 const world = createWorld();
 
 
-const NotItself = createTreeQueryFilter((eid1, eid2, _world) => {
-  return (eid1 !== eid2);
-});
+// matches any other entity, ExcludeSelf(...) keeps entities from matching themselves
+const Another = createTreeQueryFilter(() => true);
 
 const Foo = trait();
 const Bar = trait();
 
 
-const query = createTreeQuery(Foo, Bar, NotItself(Foo, Bar));
+const query = createTreeQuery(Foo, Bar, ExcludeSelf(Another(Foo, Bar)));
 
 
 {
@@ -0,0 +1,99 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, relation, trait} from "koota";
+import {createTreeQuery, createTreeQueryFilter, None} from "./tree-query.ts";
+import {createTestWorld} from "./test-helpers.ts";
+
+describe('negated filters', () => {
+
+  const A = trait();
+  const B = trait();
+  const C = trait();
+  const Wounded = trait();
+
+  const IsParentOf = relation();
+
+  const HasChild = createTreeQueryFilter((e1, e2, _world) => {
+    return e1.has(IsParentOf(e2))
+  });
+
+
+  it("keeps parents that have no matching child", () => {
+    const world = createTestWorld();
+
+    const healthyFamily = world.spawn(A, IsParentOf(world.spawn(B)));
+    const woundedFamily = world.spawn(A, IsParentOf(world.spawn(B, Wounded)));
+    const childless = world.spawn(A);
+
+    const withoutWoundedChildren = createTreeQuery(A, None(HasChild(Wounded)));
+
+    expect(withoutWoundedChildren(world).length).toBe(2);
+    expect(withoutWoundedChildren(world)).toContain(healthyFamily);
+    expect(withoutWoundedChildren(world)).toContain(childless);
+    expect(withoutWoundedChildren(world)).not.toContain(woundedFamily);
+  });
+
+
+  it("lets all parents pass if the child query is empty", () => {
+    const world = createWorld();
+    const a1 = world.spawn(A);
+    const a2 = world.spawn(A);
+
+    const withoutWoundedChildren = createTreeQuery(A, None(HasChild(Wounded)));
+    expect(withoutWoundedChildren(world).length).toBe(2);
+    expect(withoutWoundedChildren(world)).toContain(a1);
+    expect(withoutWoundedChildren(world)).toContain(a2);
+
+    // an empty result further down a negated subtree doesn't empty the whole query either
+    const withoutGrandchildren = createTreeQuery(A, None(HasChild(B, HasChild(C))));
+    expect(withoutGrandchildren(world).length).toBe(2);
+  });
+
+
+  it("can be nested under positive filters and the other way around", () => {
+    const world = createWorld();
+
+    // a -> b -> c
+    const c = world.spawn(C);
+    const b1 = world.spawn(B, IsParentOf(c));
+    const a1 = world.spawn(A, IsParentOf(b1));
+
+    // a -> b
+    const b2 = world.spawn(B);
+    const a2 = world.spawn(A, IsParentOf(b2));
+
+    // A with a child B that has no C child
+    const positiveOverNegated = createTreeQuery(A, HasChild(B, None(HasChild(C))));
+    expect(positiveOverNegated(world).length).toBe(1);
+    expect(positiveOverNegated(world)).toContain(a2);
+
+    // A without a child B that has a C child
+    const negatedOverPositive = createTreeQuery(A, None(HasChild(B, HasChild(C))));
+    expect(negatedOverPositive(world).length).toBe(1);
+    expect(negatedOverPositive(world)).toContain(a2);
+
+    // double negation: A without a child B that has no C child
+    const doubleNegation = createTreeQuery(A, None(HasChild(B, None(HasChild(C)))));
+    expect(doubleNegation(world).length).toBe(1);
+    expect(doubleNegation(world)).toContain(a1);
+
+    // removing the grandchild flips the result
+    c.destroy();
+    expect(negatedOverPositive(world).length).toBe(2);
+    expect(doubleNegation(world).length).toBe(0);
+  });
+
+
+  it("combines with regular filters on the same node", () => {
+    const world = createWorld();
+
+    const b = world.spawn(B);
+    const both = world.spawn(A, IsParentOf(b), IsParentOf(world.spawn(B, Wounded)));
+    const onlyHealthy = world.spawn(A, IsParentOf(world.spawn(B)));
+
+    const query = createTreeQuery(A, HasChild(B), None(HasChild(Wounded)));
+    expect(query(world).length).toBe(1);
+    expect(query(world)).toContain(onlyHealthy);
+    expect(query(world)).not.toContain(both);
+  });
+
+});
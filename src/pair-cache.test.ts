@@ -0,0 +1,105 @@
+import {describe, expect, it} from "vitest";
+import {type Entity} from "koota";
+import {createPairCache, createTreeQuery, createTreeQueryFilter, None, type PairCache} from "./tree-query.ts";
+import {createTestWorld, IsExplosiveOnContact, IsHealthPickup, IsSpaceship, Position, Radius} from "./test-helpers.ts";
+
+describe('pair caches', () => {
+
+  // the pairs the condition was called with
+  let compared: Array<[Entity, Entity]> = [];
+
+  // symmetric, both sides have the same range
+  const inRange = (eid1: Entity, eid2: Entity, _world: unknown, params?: { range: number }) => {
+    compared.push([eid1, eid2]);
+    const myPos = eid1.get(Position)!;
+    const otherPos = eid2.get(Position)!;
+    const dist = Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
+    return dist <= (params?.range ?? 10);
+  };
+
+  const callsOf = (run: () => unknown) => {
+    compared = [];
+    run();
+    return compared.length;
+  };
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    const ships = [0, 100, 200].map(x => world.spawn(IsSpaceship, Radius({value: 10}), Position({x, y: 0})));
+    const pickups = [5, 105, 300].map(x => world.spawn(IsHealthPickup, Radius({value: 10}), Position({x, y: 0})));
+    world.spawn(IsExplosiveOnContact, Radius({value: 10}), Position({x: 110, y: 0}));
+    return {world, ships, pickups};
+  };
+
+
+  it("pays for each pair once per frame", () => {
+    const {world, ships, pickups} = populate();
+    const frameCache = createPairCache();
+    const InRange = createTreeQueryFilter(inRange, {cache: frameCache, hints: {symmetric: true}, requires: [Position]});
+
+    const spaceshipsWithPickupsInRange = createTreeQuery(IsSpaceship, InRange(IsHealthPickup));
+    const pickupsThatHaveASpaceshipInRange = createTreeQuery(IsHealthPickup, InRange(IsSpaceship));
+    const safeSpaceships = createTreeQuery(IsSpaceship, InRange(IsHealthPickup, None(InRange(IsExplosiveOnContact))));
+
+    const frame = () => [
+      spaceshipsWithPickupsInRange(world),
+      pickupsThatHaveASpaceshipInRange(world),
+      safeSpaceships(world),
+    ];
+    const unordered = () => new Set(compared.map(([a, b]) => a < b ? `${a}-${b}` : `${b}-${a}`));
+
+    compared = [];
+    expect(frame()).toEqual([[ships[0], ships[1]], [pickups[0], pickups[1]], [ships[0]]]);
+    // no pair twice, in either direction
+    expect(compared.length).toBeGreaterThan(0);
+    expect(unordered().size).toBe(compared.length);
+
+    // until the cache gets cleared, the results stay - changes included
+    pickups[2].set(Position, {x: 200, y: 0});
+    expect(callsOf(() => expect(frame()[0]).toEqual([ships[0], ships[1]]))).toBe(0);
+
+    frameCache.clear();
+    compared = [];
+    expect(frame()[0]).toEqual([ships[0], ships[1], ships[2]]);
+    expect(compared.length).toBeGreaterThan(0);
+    expect(unordered().size).toBe(compared.length);
+  });
+
+
+  it("keeps results apart by filter, direction and params", () => {
+    const {world, ships} = populate();
+    const frameCache = createPairCache();
+    const InRange = createTreeQueryFilter(inRange, {cache: frameCache});
+    const InRangeToo = createTreeQueryFilter(inRange, {cache: frameCache});
+    const Uncached = createTreeQueryFilter(inRange);
+
+    // without a cache, every execution calls the condition
+    const uncached = createTreeQuery(IsSpaceship, Uncached(IsHealthPickup));
+    const uncachedReverse = createTreeQuery(IsHealthPickup, Uncached(IsSpaceship));
+    const calls = callsOf(() => uncached(world));
+    expect(calls).toBeGreaterThan(0);
+    expect(callsOf(() => uncached(world))).toBe(calls);
+
+    const cached = createTreeQuery(IsSpaceship, InRange(IsHealthPickup));
+    expect(callsOf(() => cached(world))).toBe(calls);
+    expect(callsOf(() => cached(world))).toBe(0);
+    // not symmetric: the other direction is a different pair, other filters don't share results
+    expect(callsOf(() => createTreeQuery(IsHealthPickup, InRange(IsSpaceship))(world)))
+      .toBe(callsOf(() => uncachedReverse(world)));
+    expect(callsOf(() => createTreeQuery(IsSpaceship, InRangeToo(IsHealthPickup))(world))).toBe(calls);
+
+    // params that are shallowly equal share results
+    const query = createTreeQuery<{ range: number }>(IsSpaceship, InRange(IsHealthPickup));
+    expect(callsOf(() => expect(query(world, {range: 200})).toEqual(ships))).toBeGreaterThan(0);
+    expect(callsOf(() => expect(query(world, {range: 200})).toEqual(ships))).toBe(0);
+    expect(callsOf(() => query(world, {range: 1}))).toBeGreaterThan(0);
+  });
+
+
+  it("only takes caches of createPairCache", () => {
+    const cache = {clear() {}} as PairCache;
+    expect(() => createTreeQueryFilter(inRange, {cache})).toThrow();
+  });
+
+});
@@ -0,0 +1,163 @@
+import {afterAll, describe, expect, it} from "vitest";
+import {trait} from "koota";
+import {AtLeast, createTreeQuery, createTreeQueryFilter, None} from "./tree-query.ts";
+import {createParallelTreeQueryFilter, createWorkerPool, type TraitColumns, type WorkerLike} from "./parallel-filter.ts";
+import {Worker} from "node:worker_threads";
+import {
+  createRandom,
+  createTestWorld,
+  entitiesOf,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius
+} from "./test-helpers.ts";
+
+const createWorker = (source: string): WorkerLike => new Worker(source, {eval: true});
+
+declare global {
+  // set while a condition has to tell the calling thread from the workers
+  var onCallingThread: boolean | undefined;
+}
+
+describe('parallel tree query filters', () => {
+
+  const pool = createWorkerPool({size: 3, createWorker});
+  afterAll(() => pool.dispose());
+
+  const traits = {parent: {Position, Radius}, child: {Position, Radius}};
+  type Columns = TraitColumns<typeof traits.parent>;
+
+  // has to be pure, it gets shipped to the workers as source code
+  const inRange = (parent: Columns, child: Columns, i: number, j: number) => {
+    const dist = Math.sqrt((parent.Position.x[i] - child.Position.x[j]) ** 2 + (parent.Position.y[i] - child.Position.y[j]) ** 2);
+    return dist - child.Radius.value[j] <= parent.Radius.value[i];
+  };
+  const InPickupRange = createParallelTreeQueryFilter(traits, inRange, {pool, minPairs: 0});
+
+  // the per pair version, to compare with
+  const InPickupRangePairwise = createTreeQueryFilter(inPickupRange, {requires: [Position, Radius]});
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    const random = createRandom(7);
+    for (let i = 0; i < 200; i++) {
+      world.spawn(IsSpaceship, Radius({value: 5 + random() * 10}), Position({x: random() * 500, y: random() * 500}));
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: random() * 500, y: random() * 500}));
+      if (i % 4 === 0) world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: random() * 500, y: random() * 500}));
+    }
+    return world;
+  };
+
+
+  it("gives the same result as a single thread, in the same order", () => {
+    const world = populate();
+
+    const pairs = [
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius, None(InPickupRange(IsExplosiveOnContact, Position, Radius)))),
+        createTreeQuery(IsSpaceship, InPickupRangePairwise(IsHealthPickup, None(InPickupRangePairwise(IsExplosiveOnContact)))),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, AtLeast(2, InPickupRange(IsHealthPickup, Position, Radius))),
+        createTreeQuery(IsSpaceship, AtLeast(2, InPickupRangePairwise(IsHealthPickup))),
+      ],
+    ];
+    for (const [parallel, pairwise] of pairs) {
+      const expected = pairwise(world);
+      expect(expected.length).toBeGreaterThan(0);
+      expect(parallel(world)).toEqual(expected);
+      expect(entitiesOf(parallel.bindings(world))).toEqual(entitiesOf(pairwise.bindings(world)));
+    }
+
+    // parts with more matches than a worker can report run on the calling thread
+    const smallPool = createWorkerPool({size: 2, createWorker, pairCapacity: 2});
+    const Overflowing = createParallelTreeQueryFilter(traits, () => true, {pool: smallPool, minPairs: 0});
+    const Everything = createTreeQueryFilter(() => true);
+    expect(entitiesOf(createTreeQuery(IsSpaceship, Position, Radius, Overflowing(IsHealthPickup, Position, Radius)).bindings(world)))
+      .toEqual(entitiesOf(createTreeQuery(IsSpaceship, Everything(IsHealthPickup)).bindings(world)));
+    smallPool.dispose();
+  });
+
+
+  it("runs the condition in the workers", () => {
+    const world = populate();
+    globalThis.onCallingThread = true;
+    const condition = () => !globalThis.onCallingThread;
+
+    const inWorkers = createParallelTreeQueryFilter(traits, condition, {pool, minPairs: 0});
+    expect(createTreeQuery(IsSpaceship, Position, Radius, inWorkers(IsHealthPickup, Position, Radius))(world).length).toBe(200);
+
+    // small edges and filters without a pool stay on the calling thread
+    const small = createParallelTreeQueryFilter(traits, condition, {pool, minPairs: 200 * 200 + 1});
+    expect(createTreeQuery(IsSpaceship, Position, Radius, small(IsHealthPickup, Position, Radius))(world)).toEqual([]);
+    const local = createParallelTreeQueryFilter(traits, condition);
+    expect(createTreeQuery(IsSpaceship, Position, Radius, local(IsHealthPickup, Position, Radius))(world)).toEqual([]);
+    globalThis.onCallingThread = undefined;
+
+    // params get shipped along
+    const farFrom = createParallelTreeQueryFilter(
+      traits,
+      (parent, child, i, j, params: { min: number }) => Math.abs(parent.Position.x[i] - child.Position.x[j]) > params.min,
+      {pool, minPairs: 0}
+    );
+    const farQuery = createTreeQuery<{ min: number }>(IsSpaceship, Position, Radius, AtLeast(200, farFrom(IsHealthPickup, Position, Radius)));
+    expect(farQuery(world, {min: -1}).length).toBe(200);
+    expect(farQuery(world, {min: 1000})).toEqual([]);
+  });
+
+
+  it("replaces the workers that don't answer in time", () => {
+    const world = populate();
+    const slowPool = createWorkerPool({size: 3, createWorker, timeout: 1000});
+    const Hanging = createParallelTreeQueryFilter(traits, (_parent, _child, _i, _j, params: { hang: boolean }) => {
+      while (params.hang) { /* never answers */ }
+      return true;
+    }, {pool: slowPool, minPairs: 0});
+    const query = createTreeQuery<{ hang: boolean }>(IsSpaceship, Position, Radius, Hanging(IsHealthPickup, Position, Radius));
+
+    expect(() => query(world, {hang: true})).toThrow("didn't answer");
+    // every worker of the call got replaced, the next one doesn't wait for them or read what they left behind
+    expect(query(world, {hang: false}).length).toBe(200);
+    expect(entitiesOf(query.bindings(world, {hang: false})))
+      .toEqual(entitiesOf(createTreeQuery(IsSpaceship, createTreeQueryFilter(() => true)(IsHealthPickup)).bindings(world)));
+    slowPool.dispose();
+  });
+
+
+  it("reports errors of the condition and invalid options", () => {
+    const world = populate();
+    const Failing = createParallelTreeQueryFilter(traits, (parent, _child, i) => {
+      if (parent.Position.x[i] >= 0) throw new Error("condition failed");
+      return true;
+    }, {pool, minPairs: 0});
+    expect(() => createTreeQuery(IsSpaceship, Position, Radius, Failing(IsHealthPickup, Position, Radius))(world)).toThrow("condition failed");
+
+    // a failure in one part: the workers of the other parts don't get to report into the next call
+    const FailingFirst = createParallelTreeQueryFilter(traits, (parent, child, i, j) => {
+      if (i === 0) throw new Error("condition failed");
+      return child.Position.x[j] - parent.Position.x[i] < 1000;
+    }, {pool, minPairs: 0});
+    const failingFirst = createTreeQuery(IsSpaceship, Position, Radius, FailingFirst(IsHealthPickup, Position, Radius));
+    const next = createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius));
+    const expected = createTreeQuery(IsSpaceship, InPickupRangePairwise(IsHealthPickup))(world);
+    for (let i = 0; i < 3; i++) {
+      expect(() => failingFirst(world)).toThrow("condition failed");
+      expect(next(world)).toEqual(expected);
+    }
+
+    const Label = trait(() => ({text: ""}));
+    const Unshippable = createParallelTreeQueryFilter({parent: {Label}, child: {}}, () => true);
+    world.spawn(IsSpaceship, Label);
+    expect(() => createTreeQuery(IsSpaceship, Label, Unshippable(IsHealthPickup))(world)).toThrow();
+
+    expect(() => createWorkerPool({size: 0, createWorker})).toThrow();
+    expect(() => createParallelTreeQueryFilter(traits, () => true, {minPairs: -1})).toThrow();
+    expect(() => createParallelTreeQueryFilter({parent: {Position}, child: {Radius}}, () => true, {hints: {symmetric: true}}))
+      .toThrow();
+  });
+
+});
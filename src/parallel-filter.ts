@@ -0,0 +1,371 @@
+import {type Entity, type ExtractStore, getStore, type Trait, unpackEntity, type World} from "koota";
+import {
+  existentialQuantifier,
+  type PlannerHints,
+  type QueryFilter,
+  type Quantifier,
+  worldOf
+} from "./tree-query.ts";
+import {createTypedFilterFactory, type TraitMap} from "./typed-filter.ts";
+
+
+/**
+ * The numeric fields of the declared traits as typed arrays, indexed like the parent or child list,
+ * e.g. `parent.Position.x[i]` is the x position of the i-th parent. Booleans are shipped as 0 and 1.
+ */
+export type TraitColumns<M extends TraitMap> = {
+  [K in keyof M]: { [F in keyof ExtractStore<M[K]>]: Float64Array };
+};
+
+/**
+ * What the pool needs from a worker: Node's `Worker` of `worker_threads` as well as the Web Worker fit.
+ */
+export type WorkerLike = {
+  postMessage(message: unknown): void;
+  terminate(): unknown;
+};
+
+export type WorkerPoolOptions = {
+  size: number;
+  // starts a worker running the given JavaScript source, e.g. with Node's worker_threads:
+  // `source => new Worker(source, {eval: true})`, in browsers:
+  // `source => new Worker(URL.createObjectURL(new Blob([source], {type: "text/javascript"})))`
+  createWorker: (source: string) => WorkerLike;
+  // the number of matches a worker can report per call, a part with more runs on the calling thread (defaults to 2^20)
+  pairCapacity?: number;
+  // how long to wait for a worker in milliseconds (defaults to 10 seconds). The call throws then, and as with any
+  // other error, the workers still running a part of it get terminated and replaced
+  timeout?: number;
+};
+
+export type WorkerPool = {
+  readonly size: number;
+  // terminates the workers, filters using the pool run on the calling thread from then on
+  dispose(): void;
+};
+
+export type ParallelTreeQueryFilterOptions = {
+  // without a pool, the filter runs on the calling thread
+  pool?: WorkerPool;
+  // edges with fewer (parent, child) pairs run on the calling thread (defaults to 2^16)
+  minPairs?: number;
+  // the traits the condition reads besides the declared ones, see `createTreeQueryFilter`
+  dependencies?: Trait[];
+  hints?: PlannerHints;
+};
+
+// what a worker answers with in the first slot of its control array
+const RUNNING = 0;
+const DONE = 1;
+const FAILED = 2;
+
+type PoolWorker = {
+  worker: WorkerLike;
+  // [state, number of matches]
+  control: Int32Array;
+  counts: Int32Array;
+  pairs: Int32Array;
+};
+
+type PoolState = {
+  workers: PoolWorker[];
+  timeout: number;
+  // to replace the workers that didn't answer in time
+  createWorker: (source: string) => WorkerLike;
+  pairCapacity: number;
+};
+
+const poolStates = new WeakMap<WorkerPool, PoolState>();
+
+const BufferType = typeof SharedArrayBuffer === "function" ? SharedArrayBuffer : ArrayBuffer;
+
+// Runs the condition on the parents [start, end) and all children: the number of matches of each parent goes into
+// `counts` (starting at 0), the child indices of the matches into `pairs`, as long as there's room for them.
+// Returns the number of matches. The workers run it too, so it can't use anything from outside.
+function runPart(
+  condition: (parent: unknown, child: unknown, i: number, j: number, params: unknown) => boolean,
+  parent: unknown,
+  child: unknown,
+  start: number,
+  end: number,
+  childCount: number,
+  params: unknown,
+  counts: Int32Array,
+  pairs: Int32Array | number[],
+  capacity: number
+) {
+  let total = 0;
+  for (let i = start; i < end; i++) {
+    let count = 0;
+    for (let j = 0; j < childCount; j++) {
+      if (!condition(parent, child, i, j, params)) continue;
+      if (total < capacity) pairs[total] = j;
+      total++;
+      count++;
+    }
+    counts[i - start] = count;
+  }
+  return total;
+}
+
+// Compiles the conditions it gets (once per source) and answers through the control array, so the calling
+// thread can wait for it with Atomics.wait (see `createParallelTreeQueryFilter`)
+const workerSource = `
+const runPart = ${runPart.toString()};
+const conditions = new Map();
+const handle = ({source, parent, child, start, end, childCount, params, control, counts, pairs}) => {
+  try {
+    let condition = conditions.get(source);
+    if (!condition) conditions.set(source, condition = new Function("return (" + source + ")")());
+    Atomics.store(control, 1, runPart(condition, parent, child, start, end, childCount, params, counts, pairs, pairs.length));
+    Atomics.store(control, 0, ${DONE});
+  } catch (error) {
+    Atomics.store(control, 0, ${FAILED});
+  }
+  Atomics.notify(control, 0);
+};
+if (typeof require === "function") require("node:worker_threads").parentPort.on("message", handle);
+else self.onmessage = event => handle(event.data);
+`;
+
+// Waiting for the workers blocks the calling thread, which browsers don't allow on their main thread
+let blockingAllowed: boolean | null = null;
+function canBlock() {
+  if (blockingAllowed === null) {
+    try {
+      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 1, 0);
+      blockingAllowed = true;
+    } catch {
+      blockingAllowed = false;
+    }
+  }
+  return blockingAllowed;
+}
+
+/**
+ * Starts `size` workers for `createParallelTreeQueryFilter`. They're shared by all filters that get the pool,
+ * `dispose()` terminates them.
+ * @param options
+ */
+export function createWorkerPool(options: WorkerPoolOptions): WorkerPool {
+  const {size, createWorker, pairCapacity = 1 << 20, timeout = 10_000} = options;
+  if (!(size >= 1) || !Number.isInteger(size)) {
+    throw new Error(`createWorkerPool: size has to be a positive integer, got ${size}.`);
+  }
+  if (typeof SharedArrayBuffer !== "function") {
+    throw new Error(`createWorkerPool: SharedArrayBuffer is not available (in browsers, the page has to be cross-origin isolated).`);
+  }
+
+  const workers: PoolWorker[] = [];
+  for (let i = 0; i < size; i++) workers.push(startWorker(createWorker, pairCapacity));
+
+  const pool: WorkerPool = {
+    size,
+    dispose() {
+      for (const {worker} of workers) worker.terminate();
+      poolStates.delete(pool);
+    },
+  };
+  poolStates.set(pool, {workers, timeout, createWorker, pairCapacity});
+  return pool;
+}
+
+function startWorker(createWorker: (source: string) => WorkerLike, pairCapacity: number): PoolWorker {
+  return {
+    worker: createWorker(workerSource),
+    control: new Int32Array(new SharedArrayBuffer(8)),
+    counts: new Int32Array(new SharedArrayBuffer(4 * 1024)),
+    pairs: new Int32Array(new SharedArrayBuffer(4 * pairCapacity)),
+  };
+}
+
+// Terminates the workers that are still running a part, and starts new ones with buffers of their own in their
+// place: a terminated worker may still write into its old buffers for a moment, no later call gets to read them
+function replaceRunning(state: PoolState, running: Array<{ index: number }>) {
+  for (const {index} of running) {
+    const poolWorker = state.workers[index];
+    if (Atomics.load(poolWorker.control, 0) !== RUNNING) continue;
+    poolWorker.worker.terminate();
+    state.workers[index] = startWorker(state.createWorker, state.pairCapacity);
+  }
+}
+
+// Copies the fields of the traits into typed arrays, re-using (and growing) the ones of earlier calls
+function shipColumns(
+  name: string,
+  entities: Entity[],
+  world: World,
+  traits: TraitMap,
+  keys: string[],
+  buffers: Map<string, ArrayBuffer | SharedArrayBuffer>
+) {
+  const columns: Record<string, Record<string, Float64Array>> = {};
+  for (const key of keys) {
+    const store = getStore(world, traits[key]) as Record<string, unknown[]>;
+    if (Array.isArray(store)) {
+      throw new Error(`${name}: the trait "${key}" isn't a schema trait, its data can't be shipped to workers.`);
+    }
+    const fields: Record<string, Float64Array> = {};
+    for (const field of Object.keys(store)) {
+      const bufferKey = `${key}.${field}`;
+      let buffer = buffers.get(bufferKey);
+      if (!buffer || buffer.byteLength < 8 * entities.length) {
+        buffer = new BufferType(8 * Math.max(64, 2 * entities.length));
+        buffers.set(bufferKey, buffer);
+      }
+      const values = store[field];
+      const column = new Float64Array(buffer, 0, entities.length);
+      for (let i = 0; i < entities.length; i++) {
+        const value = values[unpackEntity(entities[i]).entityId];
+        if (typeof value !== "number" && typeof value !== "boolean") {
+          throw new Error(`${name}: the field "${key}.${field}" is neither a number nor a boolean.`);
+        }
+        column[i] = +value;
+      }
+      fields[field] = column;
+    }
+    columns[key] = fields;
+  }
+  return columns;
+}
+
+
+/**
+ * Factory for tree query filters whose (parent, child) pairs get split up between the workers of a pool
+ * (see `createWorkerPool`). The condition only gets the fields of the declared traits, shipped as typed arrays
+ * (see `TraitColumns`), and the indices of the parent and child:
+ * <pre>
+ * const pool = createWorkerPool({size: 4, createWorker: source => new Worker(source, {eval: true})});
+ *
+ * const InPickupRange = createParallelTreeQueryFilter(
+ *   {parent: {Position, Radius}, child: {Position, Radius}},
+ *   (parent, child, i, j) => {
+ *     const dist = Math.sqrt((parent.Position.x[i] - child.Position.x[j]) ** 2 + (parent.Position.y[i] - child.Position.y[j]) ** 2);
+ *     return dist - child.Radius.value[j] <= parent.Radius.value[i];
+ *   },
+ *   {pool}
+ * );
+ * </pre>
+ * The condition is sent to the workers as source code, so it has to be pure: it can't use any variables from
+ * outside (imports included), and the params it gets have to be structured-cloneable. Each worker handles one
+ * part of the parent list, the parts are put together in order, so the result is the same as when running on
+ * a single thread. Waiting for the workers blocks the calling thread (with Atomics.wait), which browsers only
+ * allow in workers - on their main thread, the filter runs on the calling thread instead, as it does without a
+ * pool, for edges with fewer than `minPairs` pairs and for the parts of the parent list with more matches than
+ * a worker can report. If the condition throws in a worker, its part runs again on the calling thread to
+ * report the error. Like with `createBatchTreeQueryFilter`, the declared traits have to be on the query levels
+ * of both sides (checked at compile time), get added to the queries at runtime and are the default dependencies.
+ * @param traits
+ * @param condition
+ * @param options
+ */
+export function createParallelTreeQueryFilter<P extends TraitMap, C extends TraitMap, Params = any>(
+  traits: { parent: P; child: C },
+  condition: (parent: TraitColumns<P>, child: TraitColumns<C>, i: number, j: number, params: Params) => boolean,
+  options: ParallelTreeQueryFilterOptions = {}
+) {
+  const parentKeys = Object.keys(traits.parent);
+  const childKeys = Object.keys(traits.child);
+
+  const {pool, minPairs = 1 << 16} = options;
+  if (!(minPairs >= 0)) {
+    throw new Error(`createParallelTreeQueryFilter: minPairs has to be a number >= 0, got ${minPairs}.`);
+  }
+
+  const source = condition.toString();
+  const run = condition as unknown as Parameters<typeof runPart>[0];
+  // re-used between executions
+  const parentBuffers = new Map<string, ArrayBuffer | SharedArrayBuffer>();
+  const childBuffers = new Map<string, ArrayBuffer | SharedArrayBuffer>();
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    world: World,
+    _skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[],
+    _stats?: unknown,
+    params?: Params
+  ) => {
+    const parents2: number[] = [];
+    const children2: number[] = [];
+    const {min, max} = quantifier;
+    const name = "createParallelTreeQueryFilter";
+    const parent = shipColumns(name, parents, worldOf(parents, world), traits.parent, parentKeys, parentBuffers);
+    const child = shipColumns(name, children, worldOf(children, world), traits.child, childKeys, childBuffers);
+
+    // the parts of the parent list with the number of matches of each parent and the child indices of the matches
+    const parts: Array<{ start: number; end: number; counts: Int32Array; pairs: Int32Array | number[] }> = [];
+    const runLocally = (start: number, end: number) => {
+      const counts = new Int32Array(end - start);
+      const matches: number[] = [];
+      runPart(run, parent, child, start, end, children.length, params, counts, matches, Infinity);
+      parts.push({start, end, counts, pairs: matches});
+    };
+
+    const state = pool && poolStates.get(pool);
+    if (!state || parents.length * children.length < minPairs || !canBlock()) {
+      runLocally(0, parents.length);
+    } else {
+      const {workers, timeout} = state;
+      const partSize = Math.ceil(parents.length / workers.length);
+      const running: Array<{ start: number; end: number; index: number; poolWorker: PoolWorker }> = [];
+      for (let k = 0; k * partSize < parents.length; k++) {
+        const start = k * partSize;
+        const end = Math.min(parents.length, start + partSize);
+        const poolWorker = workers[k];
+        if (poolWorker.counts.length < end - start) {
+          poolWorker.counts = new Int32Array(new SharedArrayBuffer(4 * 2 * (end - start)));
+        }
+        Atomics.store(poolWorker.control, 0, RUNNING);
+        poolWorker.worker.postMessage({
+          source, parent, child, start, end, params,
+          childCount: children.length,
+          control: poolWorker.control,
+          counts: poolWorker.counts,
+          pairs: poolWorker.pairs,
+        });
+        running.push({start, end, index: k, poolWorker});
+      }
+
+      try {
+        for (const {start, end, poolWorker} of running) {
+          const {control} = poolWorker;
+          if (Atomics.wait(control, 0, RUNNING, timeout) === "timed-out") {
+            throw new Error(`${name}: a worker didn't answer within ${timeout}ms.`);
+          }
+          // the condition failed (we run it again to get the error) or there were too many matches to report
+          if (Atomics.load(control, 0) === FAILED || Atomics.load(control, 1) > poolWorker.pairs.length) {
+            runLocally(start, end);
+          } else {
+            parts.push({start, end, counts: poolWorker.counts, pairs: poolWorker.pairs});
+          }
+        }
+      } finally {
+        // on errors, the workers we didn't wait for are still at it
+        replaceRunning(state, running);
+      }
+    }
+
+    // put together in the order of the parents, as if it all ran in one loop
+    for (const part of parts) {
+      let offset = 0;
+      for (let i = part.start; i < part.end; i++) {
+        const count = part.counts[i - part.start];
+        if (count >= min && count <= max) {
+          parents2.push(parents[i]);
+          for (let k = offset; k < offset + count; k++) {
+            children2.push(children[part.pairs[k]]);
+            pairs?.push(parents[i], children[part.pairs[k]]);
+          }
+        }
+        offset += count;
+      }
+    }
+
+    return {parents: parents2, children: children2};
+  };
+
+  return createTypedFilterFactory("createParallelTreeQueryFilter", traits, queryFilter as unknown as QueryFilter, options);
+}
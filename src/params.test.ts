@@ -0,0 +1,93 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, trait} from "koota";
+import {createTreeQuery, createTreeQueryFilter, None} from "./tree-query.ts";
+import {createSpatialTreeQueryFilter} from "./spatial-filter.ts";
+import {createTestWorld, IsHealthPickup, IsSpaceship, Position, Radius, sorted} from "./test-helpers.ts";
+
+describe('parameterized tree queries', () => {
+
+  const IsPlayer = trait();
+
+  type AbilityParams = { range: number };
+
+  let conditionCalls = 0;
+
+  // like InPickupRange, but with the range of an ability instead of a radius
+  const InAbilityRange = createTreeQueryFilter((eid1, eid2, _world, params: AbilityParams) => {
+    conditionCalls++;
+    const myPos = eid1.get(Position)!;
+    const otherPos = eid2.get(Position)!;
+    return Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2) <= params.range;
+  }, {requires: [Position], dependencies: [Position]});
+
+
+  it("passes the params on to the filters", () => {
+    const world = createTestWorld();
+
+    world.spawn(IsPlayer, Position({x: 0, y: 0}));
+    const ships = [10, 20, 30].map(x => world.spawn(IsSpaceship, Position({x, y: 0})));
+
+    const shipsInRange = createTreeQuery<AbilityParams>(IsSpaceship, InAbilityRange(IsPlayer));
+    expect(shipsInRange(world, {range: 5})).toEqual([]);
+    expect(sorted(shipsInRange(world, {range: 25}))).toEqual(sorted(ships.slice(0, 2)));
+    expect(sorted(shipsInRange(world, {range: 100}))).toEqual(sorted(ships));
+
+    const shipsOutOfRange = createTreeQuery<AbilityParams>(IsSpaceship, None(InAbilityRange(IsPlayer)));
+    expect(shipsOutOfRange(world, {range: 15})).toEqual(ships.slice(1));
+
+    const [binding] = createTreeQuery(IsPlayer, InAbilityRange(IsSpaceship)).bindings(world, {range: 10});
+    expect(binding.matches[0].map(match => match.entity)).toEqual([ships[0]]);
+
+    const explanation = shipsInRange.explain(world, {range: 25});
+    expect(explanation.result.length).toBe(2);
+  });
+
+
+  it("passes the params on to spatial filters", () => {
+    const world = createWorld();
+
+    type CursorParams = { cursor: { x: number; y: number } };
+
+    // pickups in range of a spaceship, but only close to the cursor
+    const InRangeNearCursor = createSpatialTreeQueryFilter({
+      position: Position,
+      radius: Radius,
+      condition: (_ship, pickup, _world, params: CursorParams) => {
+        const {x, y} = pickup.get(Position)!;
+        return Math.abs(x - params.cursor.x) + Math.abs(y - params.cursor.y) < 10;
+      },
+    });
+
+    const ship = world.spawn(IsSpaceship, Radius({value: 100}), Position({x: 0, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 50, y: 0}));
+
+    const query = createTreeQuery<CursorParams>(IsSpaceship, InRangeNearCursor(IsHealthPickup));
+    expect(query(world, {cursor: {x: 0, y: 0}})).toEqual([]);
+    expect(query(world, {cursor: {x: 48, y: 0}})).toEqual([ship]);
+  });
+
+
+  it("re-evaluates tracked queries when the params change", () => {
+    const world = createWorld();
+
+    world.spawn(IsPlayer, Position({x: 0, y: 0}));
+    const near = world.spawn(IsSpaceship, Position({x: 10, y: 0}));
+    const far = world.spawn(IsSpaceship, Position({x: 30, y: 0}));
+
+    const tracked = createTreeQuery<AbilityParams>(IsSpaceship, InAbilityRange(IsPlayer)).track(world);
+    expect(tracked.update({range: 20})).toEqual([near]);
+
+    // same params (even if it's a new object), nothing to do
+    conditionCalls = 0;
+    expect(tracked.update({range: 20})).toEqual([near]);
+    expect(conditionCalls).toBe(0);
+
+    expect(sorted(tracked.update({range: 50}))).toEqual(sorted([near, far]));
+    expect(tracked.added).toEqual([far]);
+
+    expect(tracked.update({range: 5})).toEqual([]);
+    expect(sorted(tracked.removed)).toEqual(sorted([near, far]));
+    tracked.dispose();
+  });
+
+});
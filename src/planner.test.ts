@@ -0,0 +1,122 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, trait, type Entity} from "koota";
+import {All, createTreeQuery, createTreeQueryFilter, Exactly, None} from "./tree-query.ts";
+import {createSpatialTreeQueryFilter} from "./spatial-filter.ts";
+import {inPickupRange, IsExplosiveOnContact, IsHealthPickup, Position, Radius, sorted} from "./test-helpers.ts";
+
+describe('query planner', () => {
+
+  const IsPlayer = trait();
+
+  let conditionCalls = 0;
+
+  const countedInPickupRange = (eid1: Entity, eid2: Entity) => {
+    conditionCalls++;
+    return inPickupRange(eid1, eid2);
+  };
+
+  const InPickupRange = createTreeQueryFilter(countedInPickupRange, {requires: [Position, Radius]});
+
+  const populate = (world: ReturnType<typeof createWorld>) => {
+    for (let i = 0; i < 1000; i++) {
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: i, y: 0}));
+    }
+    for (let i = 0; i < 100; i++) {
+      world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: i * 10, y: 1}));
+    }
+    world.spawn(IsPlayer, Radius({value: 5}), Position({x: 500, y: 0}));
+  };
+
+
+  it("runs the cheapest sibling first", () => {
+    const world = createWorld();
+    populate(world);
+
+    // pickups near the player without an explosive next to them, the expensive filter comes first
+    const query = createTreeQuery(
+      IsHealthPickup,
+      None(InPickupRange(IsExplosiveOnContact)),
+      InPickupRange(IsPlayer)
+    );
+
+    const plan = query.plan(world);
+    expect(plan.map(step => step.path)).toEqual([[1], [0]]);
+    expect(plan[0]).toEqual({path: [1], direction: 'parent-driven', parents: 1000, children: 1, cost: 1000});
+    expect(plan[1].cost).toBe(1000 * 100);
+
+    // 1000 comparisons with the player leave 13 pickups, which get compared with (at most) 100 explosives
+    conditionCalls = 0;
+    const result = query(world);
+    expect(conditionCalls).toBeLessThanOrEqual(1000 + 13 * 100);
+    // 3 of them lie next to the explosive at x = 500
+    expect(result.length).toBe(10);
+    for (const pickup of result) {
+      expect(Math.abs(pickup.get(Position)!.x - 500)).toBeGreaterThan(1);
+    }
+
+    // once there are lots of players, the negation is the better start
+    for (let i = 0; i < 1000; i++) world.spawn(IsPlayer, Radius({value: 5}), Position({x: 5000, y: 0}));
+    expect(query.plan(world).map(step => step.path)).toEqual([[0], [1]]);
+  });
+
+
+  it("runs nested filters before their parents", () => {
+    const world = createWorld();
+    populate(world);
+
+    const InRangeFast = createSpatialTreeQueryFilter({position: Position, radius: Radius});
+    const query = createTreeQuery(
+      IsPlayer,
+      InPickupRange(IsHealthPickup, InPickupRange(IsExplosiveOnContact)),
+      InRangeFast(IsExplosiveOnContact)
+    );
+
+    const paths = query.plan(world).map(step => step.path);
+    expect(paths).toEqual([[1], [0, 0], [0]]);
+    expect(query(world)).toEqual([world.queryFirst(IsPlayer)]);
+  });
+
+
+  it("loops over the children of symmetric filters if that is cheaper", () => {
+    const world = createWorld();
+    populate(world);
+
+    // pretend looping over the outer list is what's expensive
+    const InRangeSymmetric = createTreeQueryFilter(countedInPickupRange, {
+      requires: [Position, Radius],
+      hints: {symmetric: true, cost: (outer, inner) => outer * 10 + inner},
+    });
+
+    const slowAndFast = [
+      [createTreeQuery(IsHealthPickup, InPickupRange(IsPlayer)), createTreeQuery(IsHealthPickup, InRangeSymmetric(IsPlayer))],
+      [createTreeQuery(IsHealthPickup, None(InPickupRange(IsPlayer))), createTreeQuery(IsHealthPickup, None(InRangeSymmetric(IsPlayer)))],
+      [createTreeQuery(IsHealthPickup, All(InPickupRange(IsPlayer))), createTreeQuery(IsHealthPickup, All(InRangeSymmetric(IsPlayer)))],
+      [
+        createTreeQuery(IsHealthPickup, Exactly(1, InPickupRange(IsExplosiveOnContact))),
+        createTreeQuery(IsHealthPickup, Exactly(1, InRangeSymmetric(IsExplosiveOnContact))),
+      ],
+    ];
+
+    for (const [slow, fast] of slowAndFast) {
+      expect(fast.plan(world)[0].direction).toBe('child-driven');
+      const expected = sorted(slow(world));
+      expect(expected.length).toBeGreaterThan(0);
+      expect(sorted(fast(world))).toEqual(expected);
+    }
+
+    // the matched entities are the same as well
+    const toEntities = (query: typeof slowAndFast[0][0]) => query.bindings(world)
+      .map(binding => [binding.entity, sorted(binding.matches[0].map(match => match.entity))]);
+    expect(toEntities(slowAndFast[3][1])).toEqual(toEntities(slowAndFast[3][0]));
+
+    // the other way around, the parents are the cheaper outer loop
+    const query = createTreeQuery(IsPlayer, InRangeSymmetric(IsHealthPickup));
+    expect(query.plan(world)[0].direction).toBe('parent-driven');
+  });
+
+
+  it("rejects invalid hints", () => {
+    expect(() => createTreeQueryFilter(countedInPickupRange, {hints: {cost: -1}})).toThrow();
+  });
+
+});
@@ -0,0 +1,154 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, Not, relation, trait} from "koota";
+import {All, AtLeast, Between, createTreeQuery, createTreeQueryFilter, Exactly, None} from "./tree-query.ts";
+import {createTestWorld} from "./test-helpers.ts";
+
+describe('quantified filters', () => {
+
+  const A = trait();
+  const B = trait();
+  const C = trait();
+  const Healthy = trait();
+
+  const IsParentOf = relation();
+
+  const HasChild = createTreeQueryFilter((e1, e2, _world) => {
+    return e1.has(IsParentOf(e2))
+  });
+
+  // every entity is "near" every other entity, but itself - handy for counting
+  const NearBy = createTreeQueryFilter((e1, e2, _world) => e1 !== e2);
+
+
+  const spawnFamily = (world: ReturnType<typeof createWorld>, healthy: number, sick: number) => {
+    const parent = world.spawn(A);
+    for (let i = 0; i < healthy; i++) parent.add(IsParentOf(world.spawn(B, Healthy)));
+    for (let i = 0; i < sick; i++) parent.add(IsParentOf(world.spawn(B)));
+    return parent;
+  };
+
+
+  it("counts matching children with AtLeast, Exactly and Between", () => {
+    const world = createTestWorld();
+
+    const none = spawnFamily(world, 0, 0);
+    const one = spawnFamily(world, 1, 0);
+    const two = spawnFamily(world, 2, 0);
+    const three = spawnFamily(world, 3, 0);
+
+    const atLeastTwo = createTreeQuery(A, AtLeast(2, HasChild(B)));
+    expect(atLeastTwo(world).length).toBe(2);
+    expect(atLeastTwo(world)).toContain(two);
+    expect(atLeastTwo(world)).toContain(three);
+
+    const exactlyOne = createTreeQuery(A, Exactly(1, HasChild(B)));
+    expect(exactlyOne(world).length).toBe(1);
+    expect(exactlyOne(world)).toContain(one);
+
+    const zeroToTwo = createTreeQuery(A, Between(0, 2, HasChild(B)));
+    expect(zeroToTwo(world).length).toBe(3);
+    expect(zeroToTwo(world)).toContain(none);
+    expect(zeroToTwo(world)).toContain(one);
+    expect(zeroToTwo(world)).toContain(two);
+
+    const moreThanOne = createTreeQuery(A, Between(2, Infinity, HasChild(B)));
+    expect(moreThanOne(world)).toEqual(atLeastTwo(world));
+  });
+
+
+  it("counts the children that survived nested filters", () => {
+    const world = createWorld();
+
+    const parent = world.spawn(A);
+    const child1 = world.spawn(B, IsParentOf(world.spawn(C)));
+    const child2 = world.spawn(B, IsParentOf(world.spawn(C)));
+    const child3 = world.spawn(B);
+    parent.add(IsParentOf(child1), IsParentOf(child2), IsParentOf(child3));
+
+    expect(createTreeQuery(A, Exactly(2, HasChild(B, HasChild(C))))(world)).toContain(parent);
+    expect(createTreeQuery(A, Exactly(3, HasChild(B, HasChild(C))))(world).length).toBe(0);
+    expect(createTreeQuery(A, Exactly(3, HasChild(B)))(world)).toContain(parent);
+  });
+
+
+  it("requires every child to match with All", () => {
+    const world = createWorld();
+
+    const b1 = world.spawn(B);
+    const b2 = world.spawn(B);
+    const parentOfAll = world.spawn(A, IsParentOf(b1), IsParentOf(b2));
+    const parentOfOne = world.spawn(A, IsParentOf(b1));
+
+    const parentsOfAllB = createTreeQuery(A, All(HasChild(B)));
+    expect(parentsOfAllB(world).length).toBe(1);
+    expect(parentsOfAllB(world)).toContain(parentOfAll);
+
+    // vacuously true once there are no children
+    b1.destroy();
+    b2.destroy();
+    expect(parentsOfAllB(world).length).toBe(2);
+    expect(parentsOfAllB(world)).toContain(parentOfOne);
+  });
+
+
+  it("expresses 'all allies in range are healthy' as a negation", () => {
+    const world = createWorld();
+
+    const healthyFamily = spawnFamily(world, 2, 0);
+    const mixedFamily = spawnFamily(world, 2, 1);
+
+    const allChildrenHealthy = createTreeQuery(A, None(HasChild(B, Not(Healthy))));
+    expect(allChildrenHealthy(world).length).toBe(1);
+    expect(allChildrenHealthy(world)).toContain(healthyFamily);
+    expect(allChildrenHealthy(world)).not.toContain(mixedFamily);
+  });
+
+
+  it("stops comparing once the outcome of a parent is known", () => {
+    const world = createWorld();
+    for (let i = 0; i < 10; i++) world.spawn(C);
+
+    let calls = 0;
+    const Counted = createTreeQueryFilter((_e1, _e2, _world) => {
+      calls++;
+      return true;
+    });
+    world.spawn(A);
+
+    calls = 0;
+    createTreeQuery(A, AtLeast(3, Counted(C)))(world);
+    expect(calls).toBe(3);
+
+    calls = 0;
+    createTreeQuery(A, Between(0, 2, Counted(C)))(world);
+    expect(calls).toBe(3);
+
+    calls = 0;
+    createTreeQuery(A, All(Counted(C)))(world);
+    expect(calls).toBe(10);
+  });
+
+
+  it("works with sibling counts (exactly one other entity)", () => {
+    const world = createWorld();
+    const c1 = world.spawn(C);
+    const c2 = world.spawn(C);
+
+    const hasExactlyOneOther = createTreeQuery(C, Exactly(1, NearBy(C)));
+    expect(hasExactlyOneOther(world).length).toBe(2);
+    expect(hasExactlyOneOther(world)).toContain(c1);
+    expect(hasExactlyOneOther(world)).toContain(c2);
+
+    world.spawn(C);
+    expect(hasExactlyOneOther(world).length).toBe(0);
+  });
+
+
+  it("rejects invalid or stacked quantifiers", () => {
+    expect(() => AtLeast(-1, HasChild(B))).toThrow();
+    expect(() => Between(3, 2, HasChild(B))).toThrow();
+    expect(() => Exactly(1.5, HasChild(B))).toThrow();
+    expect(() => None(AtLeast(2, HasChild(B)))).toThrow();
+  });
+
+});
@@ -0,0 +1,166 @@
+import {describe, expect, it} from "vitest";
+import {Not, trait} from "koota";
+import {
+  All,
+  AnyOf,
+  AtLeast,
+  createTreeQuery,
+  Exactly,
+  ExcludeSelf,
+  None,
+  Reachable
+} from "./tree-query.ts";
+import {
+  createQueryRegistry,
+  parseQueryDefinition,
+  printQueryDefinition,
+  type QueryDefinition
+} from "./query-definition.ts";
+import {
+  createTestWorld,
+  InPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius
+} from "./test-helpers.ts";
+
+describe('serializable query definitions', () => {
+
+  const IsShielded = trait();
+
+  const registry = createQueryRegistry({
+    traits: {Position, Radius, IsSpaceship, IsHealthPickup, IsExplosiveOnContact, IsShielded},
+    filters: {InPickupRange},
+  });
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    // a safe pickup, a spoiled pickup, two pickups and none
+    const ships = [0, 100, 200, 300].map(x => world.spawn(IsSpaceship, Radius({value: 10}), Position({x, y: 0})));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 5, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 105, y: 0}));
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 106, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 205, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 195, y: 0}));
+    ships[3].add(IsShielded);
+    return {world, ships};
+  };
+
+
+  it("builds the same queries as createTreeQuery", () => {
+    const {world} = populate();
+
+    const cases: Array<[string, ReturnType<typeof createTreeQuery>]> = [
+      [
+        "IsSpaceship, Position & InPickupRange(IsHealthPickup, Position)",
+        createTreeQuery(IsSpaceship, Position, InPickupRange(IsHealthPickup, Position)),
+      ],
+      [
+        "IsSpaceship, InPickupRange(IsHealthPickup, None(InPickupRange(IsExplosiveOnContact)))",
+        createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup, None(InPickupRange(IsExplosiveOnContact)))),
+      ],
+      [
+        "IsSpaceship, Not(IsShielded), AtLeast(2, InPickupRange(IsHealthPickup))",
+        createTreeQuery(IsSpaceship, Not(IsShielded), AtLeast(2, InPickupRange(IsHealthPickup))),
+      ],
+      [
+        "IsSpaceship,\n  AnyOf(IsShielded, [Not(IsShielded), Exactly(1, InPickupRange(IsExplosiveOnContact))])",
+        createTreeQuery(IsSpaceship, AnyOf(IsShielded, [Not(IsShielded), Exactly(1, InPickupRange(IsExplosiveOnContact))])),
+      ],
+      [
+        "IsSpaceship, Between(1, 1, InPickupRange(IsHealthPickup)), All(InPickupRange(IsExplosiveOnContact))",
+        createTreeQuery(IsSpaceship, Exactly(1, InPickupRange(IsHealthPickup)), All(InPickupRange(IsExplosiveOnContact))),
+      ],
+      [
+        "IsSpaceship, ExcludeSelf(InPickupRange(IsSpaceship))",
+        createTreeQuery(IsSpaceship, ExcludeSelf(InPickupRange(IsSpaceship))),
+      ],
+      [
+        "IsSpaceship, None(Reachable(InPickupRange(IsHealthPickup)))",
+        createTreeQuery(IsSpaceship, None(Reachable(InPickupRange(IsHealthPickup)))),
+      ],
+    ];
+    for (const [text, expected] of cases) {
+      const fromText = registry.createTreeQuery(text);
+      expect(fromText(world)).toEqual(expected(world));
+
+      // the definition goes through JSON and back to text
+      const definition = JSON.parse(JSON.stringify(parseQueryDefinition(text))) as QueryDefinition;
+      expect(registry.createTreeQuery(definition)(world)).toEqual(expected(world));
+      expect(parseQueryDefinition(printQueryDefinition(definition))).toEqual(definition);
+    }
+  });
+
+
+  it("reads and writes plain definitions", () => {
+    const {world, ships} = populate();
+    const definition: QueryDefinition = [
+      "IsSpaceship", {"InPickupRange": ["IsHealthPickup", {"None": [{"InPickupRange": ["IsExplosiveOnContact"]}]}]},
+    ];
+    expect(registry.createTreeQuery(definition)(world)).toEqual([ships[0], ships[2]]);
+    expect(printQueryDefinition(definition))
+      .toBe("IsSpaceship, InPickupRange(IsHealthPickup, None(InPickupRange(IsExplosiveOnContact)))");
+    expect(parseQueryDefinition("AtLeast(2, F()), [A, B]")).toEqual([{AtLeast: [2, {F: []}]}, ["A", "B"]]);
+  });
+
+
+  it("points at the offending token", () => {
+    const error = (create: () => unknown) => {
+      try {
+        create();
+      } catch (error) {
+        return (error as Error).message;
+      }
+      return "";
+    };
+
+    expect(error(() => registry.createTreeQuery("IsSpaceship, Positon")))
+      .toBe(`QueryRegistry: unknown trait "Positon" at 1:14\n  IsSpaceship, Positon\n               ^`);
+    expect(error(() => registry.createTreeQuery("IsSpaceship,\n  InPickupRange(IsHealthPickup, InRange(IsShielded))")))
+      .toBe(`QueryRegistry: unknown filter "InRange" at 2:33\n    InPickupRange(IsHealthPickup, InRange(IsShielded))\n                                  ^`);
+    expect(error(() => parseQueryDefinition("IsSpaceship, InPickupRange(IsHealthPickup")))
+      .toBe(`parseQueryDefinition: expected "," or ")", found the end of the query at 1:42\n  IsSpaceship, InPickupRange(IsHealthPickup\n                                           ^`);
+    expect(error(() => parseQueryDefinition("IsSpaceship; Position"))).toMatch(/^parseQueryDefinition: unexpected ";" at 1:12/);
+    expect(error(() => parseQueryDefinition("IsSpaceship, , Position"))).toMatch(/found "," at 1:14/);
+
+    expect(error(() => registry.createTreeQuery("IsSpaceship, InPickupRange"))).toMatch(/"InPickupRange" is a filter.* at 1:14/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, IsShielded(Position)"))).toMatch(/"IsShielded" is a trait.* at 1:14/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, AtLeast(InPickupRange(IsShielded))"))).toMatch(/AtLeast expects a count and a filter at 1:14/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, None(IsShielded)"))).toMatch(/expected a filter at 1:19/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, 2"))).toMatch(/a count can only be .* at 1:14/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, [IsShielded]"))).toMatch(/a list can only be .* at 1:14/);
+    // errors of the factories get the location too
+    expect(error(() => registry.createTreeQuery("IsSpaceship, None(None(InPickupRange(IsShielded)))")))
+      .toMatch(/^QueryRegistry: None: filter node is already quantified.* at 1:14/);
+
+    expect(error(() => registry.createTreeQuery(["IsSpaceship", {"InPickupRange": ["IsHealthPickup", "Radus"]}])))
+      .toBe(`QueryRegistry: unknown trait "Radus" at definition[1].InPickupRange[1]`);
+    expect(error(() => registry.createTreeQuery(["IsSpaceship", {"InPickupRange": [], "None": []}])))
+      .toMatch(/expected a name, a count, a list or a call .* at definition\[1]/);
+    expect(error(() => printQueryDefinition(["IsSpaceship", {"AtLeast": [-1, "x y"]}])))
+      .toBe(`printQueryDefinition: -1 is not a count at definition[1].AtLeast[0].`);
+
+    // what has no form in a definition is rejected by name
+    expect(error(() => printQueryDefinition(["IsSpaceship", {"Shared": ["IsHealthPickup"]}])))
+      .toMatch(/^printQueryDefinition: Shared\(\.\.\.\) has no form in a query definition.* at definition\[1]\.$/);
+    expect(error(() => printQueryDefinition([{"Between": [1, Infinity, {"InPickupRange": ["IsHealthPickup"]}]}])))
+      .toMatch(/write Between\(n, Infinity, \.\.\.\) as AtLeast\(n, \.\.\.\) at definition\[0]\.Between\[1]/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, Between(1, Infinity, InPickupRange(IsHealthPickup))")))
+      .toMatch(/Infinity is not a count.* at 1:25/);
+    expect(error(() => registry.createTreeQuery("IsSpaceship, Where(IsShielded)"))).toMatch(/Where\(\.\.\.\) has no form .* at 1:14/);
+  });
+
+
+  it("rejects invalid registries", () => {
+    expect(() => createQueryRegistry({traits: {"Is Spaceship": IsSpaceship}})).toThrow();
+    expect(() => createQueryRegistry({traits: {None: IsSpaceship}})).toThrow();
+    expect(() => createQueryRegistry({traits: {Shared: IsSpaceship}})).toThrow();
+    expect(() => createQueryRegistry({traits: {IsSpaceship}, filters: {IsSpaceship: InPickupRange}})).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => createQueryRegistry({filters: {InPickupRange: 1}})).toThrow();
+  });
+
+});
@@ -0,0 +1,364 @@
+import {Not, type QueryModifier, type Trait} from "koota";
+import {
+  All,
+  AnyOf,
+  AtLeast,
+  Between,
+  createTreeQuery,
+  Exactly,
+  ExcludeSelf,
+  None,
+  type QueryFilterNode,
+  Reachable,
+  type QueryTree,
+  type TreeQuery
+} from "./tree-query.ts";
+
+
+/**
+ * A tree query as plain data, e.g. for JSON files: the elements of the root level, like the arguments of
+ * `createTreeQuery`. Traits and filters are referred to by the names they're registered with (see
+ * `createQueryRegistry`):
+ * <pre>
+ * ["IsSpaceship", "Position", {"InPickupRange": ["IsHealthPickup", "Position", {"None": [{"InPickupRange": ["IsMine"]}]}]}]
+ * </pre>
+ * Not every tree query has a definition: the options of `Reachable` (`maxDepth`, `via`), `Shared`, `From` and
+ * `Where` have no form in it, and neither has Infinity - `Between(n, Infinity, ...)` is written as `AtLeast(n, ...)`.
+ * They're rejected by name, when printing as well as when building the query.
+ */
+export type QueryDefinition = QueryElementDefinition[];
+
+/**
+ * One element of a level: the name of a trait, a count (the first arguments of `AtLeast`, `Exactly` and
+ * `Between`), a call `{Name: [...arguments]}` of a registered filter or of `Not`, `None`, `All`, `AtLeast`,
+ * `Exactly`, `Between`, `ExcludeSelf`, `Reachable` (without options) and `AnyOf`, or a list of elements (a branch
+ * of `AnyOf`).
+ */
+export type QueryElementDefinition = string | number | QueryCallDefinition | QueryElementDefinition[];
+
+export type QueryCallDefinition = { [name: string]: QueryElementDefinition[] };
+
+export type QueryRegistryEntries = {
+  traits?: Record<string, Trait>;
+  // filter factories, e.g. the ones returned by `createTreeQueryFilter`
+  filters?: Record<string, (...level: any[]) => QueryFilterNode>;
+};
+
+export type QueryRegistry = {
+  traits: Readonly<Record<string, Trait>>;
+  filters: Readonly<Record<string, (...level: any[]) => QueryFilterNode>>;
+  // builds the same tree query as `createTreeQuery` with the traits and filters the names stand for
+  createTreeQuery<Params = any>(source: string | QueryDefinition): TreeQuery<Params>;
+};
+
+// wrappers of a filter node, with the counts that come before it
+const quantifiers: Record<string, { counts: number; quantify: (...args: any[]) => QueryFilterNode }> = {
+  None: {counts: 0, quantify: None},
+  All: {counts: 0, quantify: All},
+  AtLeast: {counts: 1, quantify: AtLeast},
+  Exactly: {counts: 1, quantify: Exactly},
+  Between: {counts: 2, quantify: Between},
+  ExcludeSelf: {counts: 0, quantify: ExcludeSelf},
+  Reachable: {counts: 0, quantify: Reachable},
+};
+
+// what the tree queries can do, but their definitions can't express
+const unsupported: Record<string, string> = {
+  Shared: `Shared(...) has no form in a query definition, every element is a query of its own`,
+  From: `From(...) has no form in a query definition, its entity source isn't data`,
+  Where: `Where(...) has no form in a query definition, its predicate isn't data`,
+};
+const infinityHint = `Infinity is not a count, write Between(n, Infinity, ...) as AtLeast(n, ...)`;
+
+const builtIns = new Set(["Not", "AnyOf", ...Object.keys(quantifiers), ...Object.keys(unsupported)]);
+
+const identifier = /^[A-Za-z_$][\w$]*$/;
+
+
+/**
+ * Maps names to traits and filter factories, so tree queries can be written down as data (see `QueryDefinition`)
+ * or as text, which reads like the arguments of `createTreeQuery`:
+ * <pre>
+ * const registry = createQueryRegistry({
+ *   traits: {IsSpaceship, IsHealthPickup, IsMine, Position},
+ *   filters: {InPickupRange},
+ * });
+ *
+ * const query = registry.createTreeQuery(
+ *   "IsSpaceship, Position, InPickupRange(IsHealthPickup, Position, None(InPickupRange(IsMine)))"
+ * );
+ * </pre>
+ * Elements are separated by `,` or `&`. Besides the registered names, `Not`, `None`, `All`, `AtLeast`, `Exactly`,
+ * `Between`, `ExcludeSelf`, `Reachable` and `AnyOf` can be used (branches of `AnyOf` with more than one element go
+ * in square brackets). What has no form in a definition is listed with `QueryDefinition`.
+ * Errors point at the offending token of the text, or at the path of the element in the definition.
+ * @param entries
+ */
+export function createQueryRegistry(entries: QueryRegistryEntries): QueryRegistry {
+  const traits: Record<string, Trait> = {...entries.traits};
+  const filters: Record<string, (...level: any[]) => QueryFilterNode> = {...entries.filters};
+
+  const checkName = (name: string) => {
+    if (!identifier.test(name)) {
+      throw new Error(`createQueryRegistry: "${name}" is not a valid name, names have to be identifiers.`);
+    }
+    if (builtIns.has(name)) {
+      throw new Error(`createQueryRegistry: "${name}" is a built-in name.`);
+    }
+  };
+  for (const [name, trait] of Object.entries(traits)) {
+    checkName(name);
+    if (typeof trait !== "function") {
+      throw new Error(`createQueryRegistry: the trait "${name}" is not a trait.`);
+    }
+  }
+  for (const [name, factory] of Object.entries(filters)) {
+    checkName(name);
+    if (Object.hasOwn(traits, name)) {
+      throw new Error(`createQueryRegistry: "${name}" is registered as a trait and as a filter.`);
+    }
+    if (typeof factory !== "function") {
+      throw new Error(`createQueryRegistry: the filter "${name}" is not a filter factory.`);
+    }
+  }
+
+  return {
+    traits,
+    filters,
+    createTreeQuery<Params = any>(source: string | QueryDefinition): TreeQuery<Params> {
+      const {definition, locate} = typeof source === "string"
+        ? locatedInText(source)
+        : {definition: source, locate: (path: number[]) => `at ${definitionPath(source, path)}`};
+      if (!Array.isArray(definition)) {
+        throw new Error(`QueryRegistry: a query definition has to be an array of elements.`);
+      }
+      const tree = compileLevel(definition, [], traits, filters, locate);
+      return createTreeQuery<Params>(...tree as QueryTree);
+    },
+  };
+}
+
+/**
+ * Turns the text form of a tree query into its definition (see `createQueryRegistry`), e.g. to store it as JSON.
+ * Only checks the syntax, the names get resolved by the registry.
+ * @param text
+ */
+export function parseQueryDefinition(text: string): QueryDefinition {
+  return parse(text).definition;
+}
+
+/**
+ * Turns a query definition into its text form, the reverse of `parseQueryDefinition`. Rejects what has no form in
+ * a definition (see `QueryDefinition`).
+ * @param definition
+ */
+export function printQueryDefinition(definition: QueryDefinition): string {
+  const printElement = (element: QueryElementDefinition, path: number[]): string => {
+    const fail = (message: string): never => {
+      throw new Error(`printQueryDefinition: ${message} at ${definitionPath(definition, path)}.`);
+    };
+    if (typeof element === "string") return identifier.test(element) ? element : fail(`"${element}" is not a name`);
+    if (typeof element === "number") {
+      if (element === Infinity) fail(infinityHint);
+      return isCount(element) ? String(element) : fail(`${element} is not a count`);
+    }
+    if (Array.isArray(element)) return `[${printLevel(element, path)}]`;
+    const [name, args] = callOf(element) ?? fail(`expected a name, a count, a list or a call {Name: [...]}`);
+    if (!identifier.test(name)) fail(`"${name}" is not a name`);
+    if (Object.hasOwn(unsupported, name)) fail(unsupported[name]);
+    return `${name}(${printLevel(args, path)})`;
+  };
+  const printLevel = (elements: QueryElementDefinition[], path: number[]) => {
+    return elements.map((element, i) => printElement(element, [...path, i])).join(", ");
+  };
+  return printLevel(definition, []);
+}
+
+
+// -------------------------------------------------------------------------------------------------------------------
+// Text form
+
+type Token = {
+  type: "name" | "count" | "(" | ")" | "[" | "]" | "," | "end";
+  text: string;
+  at: number;
+};
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:([A-Za-z_$][\w$]*)|(\d+)|([()[\],&])|(\S))/y;
+  let match: RegExpExecArray | null;
+  while (pattern.lastIndex < text.length && (match = pattern.exec(text))) {
+    const at = pattern.lastIndex - (match[1] ?? match[2] ?? match[3] ?? match[4]).length;
+    if (match[1]) tokens.push({type: "name", text: match[1], at});
+    else if (match[2]) tokens.push({type: "count", text: match[2], at});
+    else if (match[3]) tokens.push({type: match[3] === "&" ? "," : match[3] as Token["type"], text: match[3], at});
+    else if (match[4]) throw new Error(`parseQueryDefinition: unexpected "${match[4]}" ${textLocation(text, at)}`);
+  }
+  tokens.push({type: "end", text: "", at: text.length});
+  return tokens;
+}
+
+// Parses the text and remembers where every element starts, by its path (the indices down the levels)
+function parse(text: string) {
+  const tokens = tokenize(text);
+  const positions = new Map<string, number>();
+  let t = 0;
+
+  const describe = (token: Token) => token.type === "end" ? "the end of the query" : `"${token.text}"`;
+  const fail = (token: Token, message: string): never => {
+    throw new Error(`parseQueryDefinition: ${message}, found ${describe(token)} ${textLocation(text, token.at)}`);
+  };
+
+  const parseLevel = (closing: Token["type"], path: number[]): QueryElementDefinition[] => {
+    const elements: QueryElementDefinition[] = [];
+    if (closing !== "end" && tokens[t].type === closing) {
+      t++;
+      return elements;
+    }
+    for (; ;) {
+      elements.push(parseElement([...path, elements.length]));
+      const token = tokens[t++];
+      if (token.type === closing) return elements;
+      if (token.type !== ",") fail(token, closing === "end" ? `expected ","` : `expected "," or "${closing}"`);
+    }
+  };
+
+  const parseElement = (path: number[]): QueryElementDefinition => {
+    const token = tokens[t++];
+    positions.set(path.join("."), token.at);
+    if (token.type === "count") return Number(token.text);
+    if (token.type === "[") return parseLevel("]", path);
+    if (token.type !== "name") return fail(token, `expected a name, a count or "["`);
+    if (tokens[t].type !== "(") return token.text;
+    t++;
+    return {[token.text]: parseLevel(")", path)};
+  };
+
+  const definition = parseLevel("end", []);
+  return {definition, positions};
+}
+
+function locatedInText(text: string) {
+  const {definition, positions} = parse(text);
+  const locate = (path: number[]) => textLocation(text, positions.get(path.join("."))!);
+  return {definition, locate};
+}
+
+// e.g. "at 1:14" followed by the line and a marker below the position
+function textLocation(text: string, at: number) {
+  const lineStart = text.lastIndexOf("\n", at - 1) + 1;
+  const lineEnd = text.indexOf("\n", at);
+  const line = text.slice(0, at).split("\n").length;
+  const column = at - lineStart + 1;
+  const source = text.slice(lineStart, lineEnd === -1 ? text.length : lineEnd);
+  return `at ${line}:${column}\n  ${source}\n  ${" ".repeat(column - 1)}^`;
+}
+
+// e.g. "definition[2].InPickupRange[1]"
+function definitionPath(definition: QueryDefinition, path: number[]) {
+  let location = "definition";
+  let current: unknown = definition;
+  for (const i of path) {
+    const call = Array.isArray(current) ? null : callOf(current);
+    if (call) location += `.${call[0]}`;
+    location += `[${i}]`;
+    current = call ? call[1][i] : (current as unknown[])[i];
+  }
+  return location;
+}
+
+
+// -------------------------------------------------------------------------------------------------------------------
+// Definition to query tree
+
+const isCount = (value: number) => Number.isInteger(value) && value >= 0;
+
+// the name and the arguments of a call, null if the element isn't one
+function callOf(element: unknown): [string, QueryElementDefinition[]] | null {
+  if (typeof element !== "object" || element === null || Array.isArray(element)) return null;
+  const entries = Object.entries(element);
+  if (entries.length !== 1 || !Array.isArray(entries[0][1])) return null;
+  return entries[0] as [string, QueryElementDefinition[]];
+}
+
+function compileLevel(
+  elements: QueryElementDefinition[],
+  path: number[],
+  traits: Record<string, Trait>,
+  filters: Record<string, (...level: any[]) => QueryFilterNode>,
+  locate: (path: number[]) => string
+): Array<Trait | QueryModifier | QueryFilterNode> {
+  const fail = (path: number[], message: string): never => {
+    throw new Error(`QueryRegistry: ${message} ${locate(path)}`);
+  };
+  // errors of the factories and modifiers get the location of the element that caused them
+  const located = <T>(path: number[], create: () => T) => {
+    try {
+      return create();
+    } catch (error) {
+      return fail(path, error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const traitOf = (element: QueryElementDefinition, path: number[]): Trait => {
+    if (typeof element !== "string") return fail(path, `expected the name of a trait`);
+    if (Object.hasOwn(traits, element)) return traits[element];
+    if (Object.hasOwn(filters, element)) return fail(path, `"${element}" is a filter, call it like ${element}(...)`);
+    return fail(path, `unknown trait "${element}"`);
+  };
+
+  const filterOf = (element: QueryElementDefinition, path: number[]) => {
+    const node = compileElement(element, path);
+    if (!(node as QueryFilterNode).isFilter) fail(path, `expected a filter`);
+    return node as QueryFilterNode;
+  };
+
+  const level = (elements: QueryElementDefinition[], path: number[]) => {
+    return elements.map((element, i) => compileElement(element, [...path, i]));
+  };
+
+  const compileElement = (element: QueryElementDefinition, path: number[]): Trait | QueryModifier | QueryFilterNode => {
+    if (typeof element === "string") return traitOf(element, path);
+    if (typeof element === "number") return fail(path, `a count can only be an argument of AtLeast, Exactly or Between`);
+    if (Array.isArray(element)) return fail(path, `a list can only be a branch of AnyOf`);
+
+    const call = callOf(element) ?? fail(path, `expected a name, a count, a list or a call {Name: [...]}`);
+    const [name, args] = call;
+
+    if (name === "Not") {
+      if (args.length === 0) fail(path, `Not expects at least one trait`);
+      return Not(...args.map((arg, i) => traitOf(arg, [...path, i])));
+    }
+
+    if (Object.hasOwn(quantifiers, name)) {
+      const {counts, quantify} = quantifiers[name];
+      if (args.length !== counts + 1) {
+        fail(path, `${name} expects ${counts === 0 ? "" : `${counts === 1 ? "a count" : "two counts"} and `}a filter`);
+      }
+      for (let i = 0; i < counts; i++) {
+        if (args[i] === Infinity || args[i] === "Infinity") fail([...path, i], infinityHint);
+        if (typeof args[i] !== "number" || !isCount(args[i] as number)) fail([...path, i], `expected a count`);
+      }
+      const filterNode = filterOf(args[counts], [...path, counts]);
+      return located(path, () => quantify(...args.slice(0, counts), filterNode));
+    }
+
+    if (Object.hasOwn(unsupported, name)) return fail(path, unsupported[name]);
+
+    if (name === "AnyOf") {
+      const branches = args.map((arg, i) => Array.isArray(arg)
+        ? level(arg, [...path, i])
+        : compileElement(arg, [...path, i]));
+      return located(path, () => AnyOf(...branches as Array<QueryFilterNode | Trait | QueryTree>));
+    }
+
+    if (!Object.hasOwn(filters, name)) {
+      return fail(path, Object.hasOwn(traits, name) ? `"${name}" is a trait, not a filter` : `unknown filter "${name}"`);
+    }
+    const nodes = level(args, path);
+    return located(path, () => filters[name](...nodes));
+  };
+
+  return level(elements, path);
+}
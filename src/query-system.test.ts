@@ -0,0 +1,141 @@
+import {Not, trait, type Entity} from "koota";
+import {createTreeQuery, createTreeQueryFilter} from "./tree-query.ts";
+import {createTreeQuerySystem, onEnter, onExit, onStay} from "./query-system.ts";
+import {createTestWorld, InPickupRange, IsHealthPickup, IsSpaceship, Position, Radius} from "./test-helpers.ts";
+import {describe, expect, it} from "vitest";
+
+
+describe('tree query systems', () => {
+
+  const IsInRange = trait();
+
+  const pickupsInRange = createTreeQuery(IsHealthPickup, InPickupRange(IsSpaceship));
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    const spaceship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    const pickups = [[20, 0], [40, 0], [20, 20]].map(([x, y]) =>
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x, y}))
+    );
+    return {world, spaceship, pickups};
+  };
+
+
+  it("reports pickups coming into range and falling out of range", () => {
+    const {world, spaceship, pickups} = populate();
+    const events: string[] = [];
+    const name = (entity: Entity) => `pickup${pickups.indexOf(entity)}`;
+
+    const system = createTreeQuerySystem(pickupsInRange, {
+      onEnter: pickup => events.push(`enter ${name(pickup)}`),
+      onExit: pickup => events.push(`exit ${name(pickup)}`),
+      onStay: pickup => events.push(`stay ${name(pickup)}`),
+    });
+
+    // nothing in range yet
+    expect(system(world)).toEqual({result: [], entered: [], exited: []});
+    expect(events).toEqual([]);
+
+    // fly towards the first pickup
+    spaceship.set(Position, {x: 15, y: 0});
+    expect(system(world).entered).toEqual([pickups[0]]);
+    expect(events.splice(0)).toEqual(["enter pickup0"]);
+
+    // the first one stays in range, the third one comes into range
+    spaceship.set(Position, {x: 18, y: 10});
+    system(world);
+    expect(events.splice(0)).toEqual(["enter pickup2", "stay pickup0"]);
+
+    // on to the second one: exits come first
+    spaceship.set(Position, {x: 35, y: 0});
+    expect(system(world)).toEqual({result: [pickups[1]], entered: [pickups[1]], exited: [pickups[0], pickups[2]]});
+    expect(events.splice(0)).toEqual(["exit pickup0", "exit pickup2", "enter pickup1"]);
+
+    // picking it up destroys it, it still exits
+    pickups[1].destroy();
+    system(world);
+    expect(events.splice(0)).toEqual(["exit pickup1"]);
+    expect(pickups[1].isAlive()).toBe(false);
+
+    // nothing changed, nothing to report
+    system(world);
+    expect(events).toEqual([]);
+  });
+
+
+  it("marks the entities in the result with a tag", () => {
+    const {world, spaceship, pickups} = populate();
+    const entered: Entity[] = [];
+    const system = onEnter(pickupsInRange, pickup => {
+      // the tag is there before the hooks get called
+      expect(pickup.has(IsInRange)).toBe(true);
+      entered.push(pickup);
+    }, {tag: IsInRange});
+    const tagged = () => pickups.filter(pickup => pickup.has(IsInRange));
+
+    spaceship.set(Position, {x: 15, y: 0});
+    system(world);
+    expect(tagged()).toEqual([pickups[0]]);
+    expect(entered).toEqual([pickups[0]]);
+
+    spaceship.set(Position, {x: 18, y: 10});
+    system(world);
+    expect(tagged()).toEqual([pickups[0], pickups[2]]);
+
+    spaceship.set(Position, {x: 100, y: 100});
+    system(world);
+    expect(tagged()).toEqual([]);
+
+    // the tag can be used by other queries
+    spaceship.set(Position, {x: 15, y: 0});
+    system(world);
+    expect([...world.query(IsHealthPickup, Not(IsInRange))]).toEqual([pickups[1], pickups[2]]);
+
+    // resetting removes the tags, the next step sees every entity as entering
+    system.reset(world);
+    expect(tagged()).toEqual([]);
+    expect(system(world).entered).toEqual([pickups[0]]);
+    expect(tagged()).toEqual([pickups[0]]);
+  });
+
+
+  it("keeps every world apart and passes the params", () => {
+    const first = populate();
+    const second = populate();
+    const exits: Entity[] = [];
+    const stays: Array<[Entity, number]> = [];
+
+    const inRangeOf = createTreeQuery<{ range: number }>(
+      IsHealthPickup,
+      createTreeQueryFilter((eid1, eid2, _world, params: { range: number }) =>
+        Math.abs(eid1.get(Position)!.x - eid2.get(Position)!.x) <= params.range
+      )(IsSpaceship, Position)
+    );
+    const exitSystem = onExit(inRangeOf, pickup => exits.push(pickup));
+    const staySystem = onStay(inRangeOf, (pickup, _world, params) => stays.push([pickup, params.range]));
+
+    expect(exitSystem(first.world, {range: 20}).entered).toEqual([first.pickups[0], first.pickups[2]]);
+    expect(exitSystem(second.world, {range: 40}).entered).toEqual(second.pickups);
+    expect(exitSystem(first.world, {range: 20}).entered).toEqual([]);
+
+    exitSystem(second.world, {range: 20});
+    expect(exits).toEqual([second.pickups[1]]);
+
+    staySystem(first.world, {range: 20});
+    staySystem(first.world, {range: 30});
+    expect(stays).toEqual([[first.pickups[0], 30], [first.pickups[2], 30]]);
+  });
+
+
+  it("rejects invalid systems", () => {
+    // @ts-expect-error: testing invalid input
+    expect(() => createTreeQuerySystem({}, {onEnter: () => {}})).toThrow();
+    expect(() => createTreeQuerySystem(pickupsInRange, {})).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => createTreeQuerySystem(pickupsInRange, {tag: "IsInRange"})).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => onEnter(pickupsInRange)).toThrow();
+  });
+
+});
@@ -0,0 +1,160 @@
+import type {Entity, Trait, World} from "koota";
+
+
+/**
+ * Anything that returns the result of a tree query for a world: the function of `createTreeQuery`, or the
+ * variant of `orderBy`.
+ */
+export type TreeQueryRunner<Params = any> = (world: World, params?: Params) => readonly Entity[];
+
+export type TreeQueryHook<Params = any> = (entity: Entity, world: World, params: Params) => void;
+
+export type TreeQuerySystemOptions<Params = any> = {
+  // entities that are in the result, but weren't with the last step in the world
+  onEnter?: TreeQueryHook<Params>;
+  // entities that were in the result with the last step, but aren't anymore - destroyed ones included
+  onExit?: TreeQueryHook<Params>;
+  // entities that were in the result with the last step and still are
+  onStay?: TreeQueryHook<Params>;
+  // a tag the entities carry while they're in the result: added when they enter, removed when they exit
+  tag?: Trait;
+};
+
+// what changed with one step of a system
+export type TreeQueryStep = {
+  result: readonly Entity[];
+  entered: readonly Entity[];
+  exited: readonly Entity[];
+};
+
+export type TreeQuerySystem<Params = any> = {
+  // runs the query, compares the result with the one of the last step in the world and calls the hooks
+  (world: World, params?: Params): TreeQueryStep;
+  // forgets the last result of the world, the next step sees every entity as entering. Tags get removed
+  reset(world: World): void;
+};
+
+const noEntities = new Set<Entity>();
+
+
+/**
+ * Turns a tree query into a system that calls hooks for the entities that start or stop matching, e.g. when
+ * a pickup comes into range of a spaceship and when it falls out of range again:
+ * <pre>
+ * const pickupsInRange = createTreeQuerySystem(createTreeQuery(IsHealthPickup, InPickupRange(IsSpaceship)), {
+ *   onEnter: pickup => pickup.add(IsGlowing),
+ *   onExit: pickup => pickup.isAlive() && pickup.remove(IsGlowing),
+ * });
+ *
+ * function update(world: World) {
+ *   pickupsInRange(world);
+ * }
+ * </pre>
+ * Every step runs the query and compares its result with the one of the last step in the same world, each world
+ * is kept apart. Exits are handled first, then entries, then the entities that stayed - hooks are called in the
+ * order of the result, exits in the order of the last one. Tags are added and removed before any hook gets called.
+ * @param query - the function of `createTreeQuery` (or of `orderBy`)
+ * @param options - the hooks, and a tag for the entities in the result
+ */
+export function createTreeQuerySystem<Params = any>(
+  query: TreeQueryRunner<Params>,
+  options: TreeQuerySystemOptions<Params>
+): TreeQuerySystem<Params> {
+  const {onEnter, onExit, onStay, tag} = options;
+
+  if (typeof query !== "function") {
+    throw new Error(`createTreeQuerySystem: expects a tree query, e.g. createTreeQuery(IsSpaceship, InRange(IsHealthPickup)).`);
+  }
+  if (!onEnter && !onExit && !onStay && !tag) {
+    throw new Error(`createTreeQuerySystem: expects at least one of onEnter, onExit, onStay and tag.`);
+  }
+  if (tag !== undefined && typeof tag !== "function") {
+    throw new Error(`createTreeQuerySystem: the tag has to be a trait.`);
+  }
+
+  // the result of the last step, per world
+  const previousResults = new WeakMap<World, Set<Entity>>();
+
+  const system = (world: World, params?: Params): TreeQueryStep => {
+    const previous = previousResults.get(world) ?? noEntities;
+    const result = query(world, params);
+    const current = new Set(result);
+    const entered = result.filter(entity => !previous.has(entity));
+    const exited = [...previous].filter(entity => !current.has(entity));
+    previousResults.set(world, current);
+
+    if (tag) {
+      for (const entity of exited) if (entity.isAlive() && entity.has(tag)) entity.remove(tag);
+      for (const entity of entered) if (!entity.has(tag)) entity.add(tag);
+    }
+
+    if (onExit) for (const entity of exited) onExit(entity, world, params!);
+    if (onEnter) for (const entity of entered) onEnter(entity, world, params!);
+    if (onStay) for (const entity of result) if (previous.has(entity)) onStay(entity, world, params!);
+    return {result, entered, exited};
+  };
+
+  system.reset = (world: World) => {
+    const previous = previousResults.get(world);
+    previousResults.delete(world);
+    if (tag && previous) {
+      for (const entity of previous) if (entity.isAlive() && entity.has(tag)) entity.remove(tag);
+    }
+  };
+
+  return system;
+}
+
+/**
+ * A system that calls `hook` for the entities that start matching the query, see `createTreeQuerySystem`.
+ * <pre>
+ * const pickUp = onEnter(createTreeQuery(IsHealthPickup, InPickupRange(IsSpaceship)), pickup => pickup.destroy());
+ * </pre>
+ * @param query
+ * @param hook
+ * @param options - a tag for the entities in the result
+ */
+export function onEnter<Params = any>(
+  query: TreeQueryRunner<Params>,
+  hook: TreeQueryHook<Params>,
+  options: Pick<TreeQuerySystemOptions<Params>, "tag"> = {}
+): TreeQuerySystem<Params> {
+  return createTreeQuerySystem(query, {...options, onEnter: checkedHook("onEnter", hook)});
+}
+
+/**
+ * A system that calls `hook` for the entities that stop matching the query (destroyed ones included, check
+ * `entity.isAlive()`), see `createTreeQuerySystem`.
+ * @param query
+ * @param hook
+ * @param options - a tag for the entities in the result
+ */
+export function onExit<Params = any>(
+  query: TreeQueryRunner<Params>,
+  hook: TreeQueryHook<Params>,
+  options: Pick<TreeQuerySystemOptions<Params>, "tag"> = {}
+): TreeQuerySystem<Params> {
+  return createTreeQuerySystem(query, {...options, onExit: checkedHook("onExit", hook)});
+}
+
+/**
+ * A system that calls `hook` with every step for the entities that matched the query before and still do,
+ * see `createTreeQuerySystem`.
+ * @param query
+ * @param hook
+ * @param options - a tag for the entities in the result
+ */
+export function onStay<Params = any>(
+  query: TreeQueryRunner<Params>,
+  hook: TreeQueryHook<Params>,
+  options: Pick<TreeQuerySystemOptions<Params>, "tag"> = {}
+): TreeQuerySystem<Params> {
+  return createTreeQuerySystem(query, {...options, onStay: checkedHook("onStay", hook)});
+}
+
+function checkedHook<Params>(name: string, hook: TreeQueryHook<Params>) {
+  if (typeof hook !== "function") {
+    throw new Error(`${name}: expects a function that gets called with the entity, the world and the params.`);
+  }
+  return hook;
+}
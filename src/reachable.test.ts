@@ -0,0 +1,169 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, relation, trait} from "koota";
+import {AtLeast, createTreeQuery, createTreeQueryFilter, None, Reachable} from "./tree-query.ts";
+import {createRelationFilter} from "./relation-filter.ts";
+import {createTestWorld} from "./test-helpers.ts";
+
+describe('reachable filters', () => {
+
+  const A = trait();
+  const B = trait();
+  const E = trait();
+
+  const IsParentOf = relation();
+  const HasChild = createRelationFilter(IsParentOf);
+  const HasParent = createRelationFilter(IsParentOf, {direction: 'source'});
+
+  const Town = trait();
+  const Road = trait();
+  const Base = trait();
+  const ConnectedTo = relation();
+  const IsConnectedTo = createRelationFilter(ConnectedTo);
+
+
+  it("finds descendants and ancestors at any depth", () => {
+    const world = createTestWorld();
+
+    const leaf = world.spawn(E);
+    const d = world.spawn(IsParentOf(leaf));
+    const c = world.spawn(IsParentOf(d));
+    const b = world.spawn(B, IsParentOf(c));
+    const root = world.spawn(A, IsParentOf(b));
+    const unrelated = world.spawn(A, IsParentOf(world.spawn(B)));
+
+    const hasDescendantWithE = createTreeQuery(A, Reachable(HasChild(E)));
+    expect(hasDescendantWithE(world)).toEqual([root]);
+
+    const hasAncestorWithA = createTreeQuery(E, Reachable(HasParent(A)));
+    expect(hasAncestorWithA(world)).toEqual([leaf]);
+
+    // nested filters narrow the entities at the end of the path, not the ones in between
+    const descendantOfB = createTreeQuery(E, Reachable(HasParent(B, HasParent(A))));
+    expect(descendantOfB(world)).toEqual([leaf]);
+
+    const withoutDescendantE = createTreeQuery(A, None(Reachable(HasChild(E))));
+    expect(withoutDescendantE(world)).toEqual([unrelated]);
+
+    // break the chain in the middle
+    d.destroy();
+    expect(hasDescendantWithE(world)).toEqual([]);
+    expect(withoutDescendantE(world).length).toBe(2);
+  });
+
+
+  it("limits the number of hops and the entities in between", () => {
+    const world = createWorld();
+
+    // town1 - road - road - base, town2 - road - road - road - base
+    const base = world.spawn(Base);
+    const town1 = world.spawn(Town, ConnectedTo(world.spawn(Road, ConnectedTo(world.spawn(Road, ConnectedTo(base))))));
+    const town2 = world.spawn(Town, ConnectedTo(
+      world.spawn(Road, ConnectedTo(world.spawn(Road, ConnectedTo(world.spawn(Road, ConnectedTo(base))))))
+    ));
+    // a shortcut through something else than a road doesn't count if we only allow roads
+    const town3 = world.spawn(Town, ConnectedTo(world.spawn(ConnectedTo(base))));
+
+    const withinThreeHops = createTreeQuery(Town, Reachable(IsConnectedTo(Base), {maxDepth: 3}));
+    expect(withinThreeHops(world).length).toBe(2);
+    expect(withinThreeHops(world)).toContain(town1);
+    expect(withinThreeHops(world)).toContain(town3);
+    expect(withinThreeHops(world)).not.toContain(town2);
+
+    const viaRoads = createTreeQuery(Town, Reachable(IsConnectedTo(Base), {maxDepth: 3, via: [Road]}));
+    expect(viaRoads(world)).toEqual([town1]);
+
+    const anyDistance = createTreeQuery(Town, Reachable(IsConnectedTo(Base)));
+    expect(anyDistance(world).length).toBe(3);
+    expect(anyDistance(world)).toContain(town2);
+    expect(anyDistance(world)).toContain(town3);
+  });
+
+
+  it("terminates on cycles", () => {
+    const world = createWorld();
+
+    // a -> b -> c -> a, nothing leads to the base
+    const a = world.spawn(Town);
+    const b = world.spawn(Road, ConnectedTo(a));
+    const c = world.spawn(Road, ConnectedTo(b));
+    a.add(ConnectedTo(c));
+    world.spawn(Base);
+
+    const reachesBase = createTreeQuery(Town, Reachable(IsConnectedTo(Base)));
+    expect(reachesBase(world)).toEqual([]);
+
+    b.add(ConnectedTo(world.queryFirst(Base)!));
+    expect(reachesBase(world)).toEqual([a]);
+
+    // a town reaches itself through the cycle
+    const reachesItself = createTreeQuery(Town, Reachable(IsConnectedTo(Town)));
+    expect(reachesItself(world)).toEqual([a]);
+  });
+
+
+  it("reports the same matches for the result and the bindings on cycles back to the start", () => {
+    const world = createWorld();
+
+    // a parent of itself
+    const self = world.spawn(E);
+    self.add(IsParentOf(self));
+    const hasDescendantWithE = createTreeQuery(E, Reachable(HasChild(E)));
+    expect(hasDescendantWithE(world)).toEqual([self]);
+    expect(hasDescendantWithE.bindings(world)[0].matches[0].map(match => match.entity)).toEqual([self]);
+
+    // start -> middle -> start, start -> sibling
+    const start = world.spawn(A, E);
+    const middle = world.spawn(E, IsParentOf(start));
+    const sibling = world.spawn(E);
+    start.add(IsParentOf(middle));
+    start.add(IsParentOf(sibling));
+
+    const query = createTreeQuery(A, Reachable(HasChild(E)));
+    expect(query(world)).toEqual([start]);
+    const [binding] = query.bindings(world);
+    const reached = binding.matches[0].map(match => match.entity);
+    expect(reached.length).toBe(3);
+    expect(reached).toContain(start);
+    expect(reached).toContain(middle);
+    expect(reached).toContain(sibling);
+
+    // back to the start through an entity in between
+    const world2 = createWorld();
+    const V = trait();
+    const loop = world2.spawn(A, E);
+    loop.add(IsParentOf(world2.spawn(V, IsParentOf(loop))));
+    const viaV = createTreeQuery(A, Reachable(HasChild(E), {via: [V]}));
+    expect(viaV(world2)).toEqual([loop]);
+    expect(viaV.bindings(world2)[0].matches[0].map(match => match.entity)).toEqual([loop]);
+  });
+
+
+  it("works with pairwise filters and returns the reached entities as bindings", () => {
+    const world = createWorld();
+
+    const HasChildPairwise = createTreeQueryFilter((e1, e2, _world) => e1.has(IsParentOf(e2)));
+
+    const e1 = world.spawn(E);
+    const e2 = world.spawn(E);
+    const middle = world.spawn(B, IsParentOf(e2));
+    const root = world.spawn(A, IsParentOf(e1), IsParentOf(middle));
+
+    const query = createTreeQuery(A, Reachable(HasChildPairwise(E)));
+    expect(query(world)).toEqual([root]);
+
+    const [binding] = query.bindings(world);
+    expect(binding.entity).toBe(root);
+    const reached = binding.matches[0].map(match => match.entity);
+    expect(reached.length).toBe(2);
+    expect(reached).toContain(e1);
+    expect(reached).toContain(e2);
+  });
+
+
+  it("rejects invalid options and counting", () => {
+    expect(() => Reachable(HasChild(E), {maxDepth: 0})).toThrow();
+    expect(() => Reachable(None(HasChild(E)))).toThrow();
+    expect(() => AtLeast(2, Reachable(HasChild(E)))).toThrow();
+  });
+
+});
@@ -0,0 +1,111 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, relation, trait, type Entity} from "koota";
+import {createTreeQuery, createTreeQueryFilter, Exactly, None} from "./tree-query.ts";
+import {createRelationFilter} from "./relation-filter.ts";
+import {createTestWorld, sorted} from "./test-helpers.ts";
+
+describe('relation filters', () => {
+
+  const A = trait();
+  const B = trait();
+  const C = trait();
+  const D = trait();
+  const E = trait();
+
+  const IsParentOf = relation();
+
+  const HasChild = createRelationFilter(IsParentOf);
+  const HasParent = createRelationFilter(IsParentOf, {direction: 'source'});
+
+  const HasChildPairwise = createTreeQueryFilter((e1, e2, _world) => {
+    return e1.has(IsParentOf(e2))
+  });
+
+
+  it("handles a deeply nested tree", () => {
+    const world = createTestWorld();
+
+    const treeRoot =
+      world.spawn(A, IsParentOf(
+        world.spawn(B, IsParentOf(
+          world.spawn(C, IsParentOf(
+            world.spawn(D, IsParentOf(
+              world.spawn(E)
+            ))
+          ))
+        ))
+      ));
+
+    const TreeRoot = createTreeQuery(
+      A, HasChild(
+        B, HasChild(
+          C, HasChild(
+            D, HasChild(
+              E))))
+    );
+
+    expect(TreeRoot(world).length).toBe(1);
+    expect(TreeRoot(world)).toContain(treeRoot);
+
+    // the other way around: the leaf of the tree
+    const TreeLeaf = createTreeQuery(
+      E, HasParent(
+        D, HasParent(
+          C, HasParent(
+            B, HasParent(
+              A))))
+    );
+    expect(TreeLeaf(world)).toEqual([world.queryFirst(E)]);
+
+    world.queryFirst(E)!.destroy();
+    expect(TreeRoot(world).length).toBe(0);
+    expect(TreeLeaf(world).length).toBe(0);
+  });
+
+
+  it("matches the results of the pairwise filter", () => {
+    const world = createWorld();
+
+    const parents: Entity[] = [];
+    for (let i = 0; i < 30; i++) parents.push(world.spawn(A));
+    for (let i = 0; i < 90; i++) {
+      const child = world.spawn(i % 2 ? B : C);
+      parents[(i * 7) % parents.length].add(IsParentOf(child));
+      if (i % 5 === 0) parents[(i * 3) % parents.length].add(IsParentOf(child));
+    }
+
+    const slowAndFast = [
+      [createTreeQuery(A, HasChildPairwise(B)), createTreeQuery(A, HasChild(B))],
+      [createTreeQuery(B, createTreeQueryFilter((e1, e2) => e2.has(IsParentOf(e1)))(A)), createTreeQuery(B, HasParent(A))],
+      [createTreeQuery(A, None(HasChildPairwise(C))), createTreeQuery(A, None(HasChild(C)))],
+      [createTreeQuery(A, Exactly(3, HasChildPairwise(B))), createTreeQuery(A, Exactly(3, HasChild(B)))],
+    ];
+
+    for (const [slow, fast] of slowAndFast) {
+      const expected = sorted(slow(world));
+      expect(expected.length).toBeGreaterThan(0);
+      expect(sorted(fast(world))).toEqual(expected);
+    }
+  });
+
+
+  it("returns the related entities as bindings", () => {
+    const world = createWorld();
+
+    const b1 = world.spawn(B);
+    const b2 = world.spawn(B);
+    const c = world.spawn(C);
+    const a = world.spawn(A, IsParentOf(b1), IsParentOf(c), IsParentOf(b2));
+
+    const [binding] = createTreeQuery(A, HasChild(B)).bindings(world);
+    expect(binding.entity).toBe(a);
+    expect(binding.matches[0].map(match => match.entity)).toEqual([b1, b2]);
+  });
+
+
+  it("rejects unknown directions", () => {
+    // @ts-expect-error: testing invalid input
+    expect(() => createRelationFilter(IsParentOf, {direction: 'sideways'})).toThrow();
+  });
+
+});
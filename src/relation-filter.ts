@@ -0,0 +1,106 @@
+import type {Entity, Relation, Trait, World} from "koota";
+import {createCustomTreeQueryFilter, existentialQuantifier, type QueryFilter, type Quantifier} from "./tree-query.ts";
+
+
+export type RelationFilterOptions = {
+  // 'target': the child is a target of the parent's relation, i.e. parent.has(relation(child)) (default)
+  // 'source': the parent is a target of the child's relation, i.e. child.has(relation(parent))
+  direction?: 'target' | 'source';
+};
+
+
+/**
+ * Factory for tree query filters that follow a Koota relation instead of comparing every (parent, child) pair.
+ * Each execution looks up the relation targets and intersects them with the child query using a set,
+ * which makes the filter O(N + M) rather than O(N x M).
+ * <pre>
+ * const HasChild = createRelationFilter(IsParentOf);                           // parent.has(IsParentOf(child))
+ * const HasParent = createRelationFilter(IsParentOf, {direction: 'source'});   // child.has(IsParentOf(parent))
+ *
+ * const TreeRoot = createTreeQuery(A, HasChild(B, HasChild(C, HasChild(D, HasChild(E)))));
+ * </pre>
+ * @param relation
+ * @param options
+ */
+export function createRelationFilter(relation: Relation<Trait>, options: RelationFilterOptions = {}) {
+  const {direction = 'target'} = options;
+
+  if (direction !== 'target' && direction !== 'source') {
+    throw new Error(`createRelationFilter: unknown direction '${direction}', expected 'target' or 'source'.`);
+  }
+
+  // re-used between executions
+  const childSet = new Set<Entity>();
+  const childrenByTarget = new Map<Entity, Entity[]>();
+  const noChildren: Entity[] = [];
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    _world: World,
+    skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[]
+  ) => {
+    const parents2: number[] = [];
+    const children2: number[] = [];
+    const {min, max} = quantifier;
+
+    // index the children once: either as a set to check targets against, or grouped by their own targets
+    childSet.clear();
+    childrenByTarget.clear();
+    for (let j = 0, M = children.length; j < M; j++) {
+      const childEid = children[j];
+      if (direction === 'target') {
+        childSet.add(childEid);
+        continue;
+      }
+      const targets = childEid.targetsFor(relation);
+      for (let t = 0; t < targets.length; t++) {
+        let sources = childrenByTarget.get(targets[t]);
+        if (!sources) childrenByTarget.set(targets[t], sources = []);
+        if (sources[sources.length - 1] !== childEid) sources.push(childEid);
+      }
+    }
+
+    for (let i = 0; i < parents.length; i++) {
+      const parentEid = parents[i];
+      const collectedBefore = children2.length;
+      const pairsBefore = pairs?.length ?? 0;
+      let matches = 0;
+
+      const candidates = direction === 'target'
+        ? parentEid.targetsFor(relation)
+        : childrenByTarget.get(parentEid) ?? noChildren;
+
+      for (let j = 0, N = candidates.length; j < N; j++) {
+        const childEid = candidates[j];
+        if (direction === 'target' && !childSet.has(childEid)) continue;
+
+        // every target in the child list is a match, the quantifier decides when to stop looking
+        if (++matches > max) break;
+        children2.push(childEid);
+        pairs?.push(parentEid, childEid);
+        if (skipCollectingChildren && matches >= min && max === Infinity) break;
+      }
+
+      if (matches >= min && matches <= max) {
+        parents2.push(parentEid);
+      } else {
+        children2.length = collectedBefore;
+        if (pairs) pairs.length = pairsBefore;
+      }
+    }
+
+    // don't hold on to entities between executions
+    childSet.clear();
+    childrenByTarget.clear();
+
+    return {parents: parents2, children: children2};
+  };
+
+  // one lookup per parent and child, no matter how many pairs there are
+  return createCustomTreeQueryFilter(queryFilter as unknown as QueryFilter, {
+    hints: {cost: (outer, inner) => outer + inner},
+  });
+}
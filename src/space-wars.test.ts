@@ -129,6 +129,56 @@ describe('Space Wars', () => {
 
     // ----------------------------------------------------------------
   });
+
+
+  it("filters that require traits", () => {
+    const world = createWorld();
+
+    const Position = trait({x: 0, y: 0});
+    const Radius = trait({value: 0});
+
+    const IsSpaceship = trait();
+    const IsHealthPickup = trait();
+
+    // same filter as above, but this time it tells the tree query which traits it relies on
+    const InPickupRange = createTreeQueryFilter((eid1, eid2, _world) => {
+      const myPos = eid1.get(Position)!;
+      const otherPos = eid2.get(Position)!;
+
+      const myRadius = eid1.get(Radius)!.value;
+      const otherRadius = eid2.get(Radius)!.value;
+
+      const dist = Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
+      return (dist - otherRadius) <= myRadius;
+    }, {requires: [Position, Radius]});
+
+    const spaceship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    const pickup = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 5, y: 0}));
+
+    // these would crash the filter if the query didn't add Position and Radius
+    world.spawn(IsSpaceship);
+    world.spawn(IsHealthPickup, Position({x: 5, y: 0}));
+
+    // no need to list Position and Radius anymore
+    const spaceshipsWithPickupsInRange = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup));
+    expect(spaceshipsWithPickupsInRange(world)).toEqual([spaceship]);
+
+    const pickupsThatHaveASpaceshipInRange = createTreeQuery(IsHealthPickup, InPickupRange(IsSpaceship));
+    expect(pickupsThatHaveASpaceshipInRange(world)).toEqual([pickup]);
+
+    // requirements can differ between the two sides
+    const InRangeOfPoint = createTreeQueryFilter((eid1, eid2, _world) => {
+      const pos = eid2.get(Position)!;
+      return Math.abs(pos.x) <= eid1.get(Radius)!.value;
+    }, {requires: {parent: [Radius], child: [Position]}});
+
+    const spaceshipsNearOrigin = createTreeQuery(IsSpaceship, InRangeOfPoint(IsHealthPickup));
+    expect(spaceshipsNearOrigin(world)).toEqual([spaceship]);
+
+    // contradicting requirements are caught when building the query
+    expect(() => createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup, Not(Position)))).toThrow(/child side/);
+    expect(() => createTreeQuery(IsSpaceship, Not(Radius), InPickupRange(IsHealthPickup))).toThrow(/parent side/);
+  });
 });
 
 
@@ -0,0 +1,132 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, trait} from "koota";
+import {AtLeast, createTreeQuery, createTreeQueryFilter, None} from "./tree-query.ts";
+import {createSpatialTreeQueryFilter} from "./spatial-filter.ts";
+import {
+  createRandom,
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius,
+  sorted
+} from "./test-helpers.ts";
+
+
+describe('spatial filters', () => {
+
+  const IsPlayer = trait();
+
+  // the brute force version from space-wars.test.ts
+  const InPickupRange = createTreeQueryFilter(inPickupRange);
+
+  const InPickupRangeFast = createSpatialTreeQueryFilter({position: Position, radius: Radius});
+
+  const populate = (world: ReturnType<typeof createWorld>, count: number, size: number, seed = 1) => {
+    const random = createRandom(seed);
+    for (let i = 0; i < count; i++) {
+      world.spawn(IsSpaceship, Radius({value: 1 + random() * 4}), Position({x: random() * size, y: random() * size}));
+      world.spawn(IsHealthPickup, Radius({value: random()}), Position({x: random() * size, y: random() * size}));
+      world.spawn(IsExplosiveOnContact, Radius({value: random() * 2}), Position({x: random() * size, y: random() * size}));
+    }
+  };
+
+
+  it("matches the results of the pairwise filter", () => {
+    const world = createTestWorld();
+    populate(world, 300, 200);
+
+    const slowAndFast = [
+      [
+        createTreeQuery(IsSpaceship, Radius, Position, InPickupRange(IsHealthPickup, Radius, Position)),
+        createTreeQuery(IsSpaceship, Radius, Position, InPickupRangeFast(IsHealthPickup, Radius, Position)),
+      ],
+      [
+        createTreeQuery(IsHealthPickup, Radius, Position, InPickupRange(IsSpaceship, Radius, Position)),
+        createTreeQuery(IsHealthPickup, Radius, Position, InPickupRangeFast(IsSpaceship, Radius, Position)),
+      ],
+      [
+        // mixed with an ordinary filter
+        createTreeQuery(IsSpaceship, Position, Radius,
+          InPickupRange(IsHealthPickup, Position, Radius, InPickupRange(IsExplosiveOnContact, Position, Radius))),
+        createTreeQuery(IsSpaceship, Position, Radius,
+          InPickupRangeFast(IsHealthPickup, Position, Radius, InPickupRange(IsExplosiveOnContact, Position, Radius))),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, None(InPickupRange(IsExplosiveOnContact, Position, Radius))),
+        createTreeQuery(IsSpaceship, Position, Radius, None(InPickupRangeFast(IsExplosiveOnContact, Position, Radius))),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, AtLeast(2, InPickupRange(IsHealthPickup, Position, Radius))),
+        createTreeQuery(IsSpaceship, Position, Radius, AtLeast(2, InPickupRangeFast(IsHealthPickup, Position, Radius))),
+      ],
+    ];
+
+    for (const [slow, fast] of slowAndFast) {
+      const expected = sorted(slow(world));
+      expect(expected.length).toBeGreaterThan(0);
+      expect(sorted(fast(world))).toEqual(expected);
+    }
+  });
+
+
+  it("only passes overlapping pairs to the condition", () => {
+    const world = createWorld();
+
+    let calls = 0;
+    const InRangeOfPlayer = createSpatialTreeQueryFilter({
+      position: Position,
+      radius: 5,
+      condition: (_e1, e2, _world) => {
+        calls++;
+        return e2.has(IsPlayer);
+      },
+    });
+
+    const near = world.spawn(IsSpaceship, Position({x: 0, y: 0}));
+    world.spawn(IsSpaceship, Position({x: 100, y: 0}));
+    world.spawn(IsHealthPickup); // no position, never matches
+    const pickup = world.spawn(IsHealthPickup, Position({x: 8, y: 0}));
+    world.spawn(IsHealthPickup, Position({x: 0, y: 9}));
+    world.spawn(IsHealthPickup, Position({x: 8, y: 8}));
+
+    // only the first two pickups overlap with the near spaceship
+    const query = createTreeQuery(IsSpaceship, InRangeOfPlayer(IsHealthPickup));
+    expect(query(world)).toEqual([]);
+    expect(calls).toBe(2);
+
+    pickup.add(IsPlayer);
+    expect(query(world)).toEqual([near]);
+  });
+
+
+  it("compares far fewer pairs than a pairwise filter", () => {
+    const world = createWorld();
+    populate(world, 2000, 2000, 7);
+
+    // the work done, not the time it took: timings depend on the machine the tests run on. The condition of the
+    // spatial filter is only called for the pairs that are left once the grid and the circles ruled out the others
+    let candidates = 0;
+    const InPickupRangeCounted = createSpatialTreeQueryFilter({
+      position: Position,
+      radius: Radius,
+      condition: () => {
+        candidates++;
+        return true;
+      },
+    });
+    const slow = createTreeQuery(IsSpaceship, Radius, Position, InPickupRange(IsHealthPickup, Radius, Position));
+    const fast = createTreeQuery(IsSpaceship, Radius, Position, InPickupRangeCounted(IsHealthPickup, Radius, Position));
+
+    const slowRun = slow.explain(world);
+    const fastResult = fast(world);
+
+    expect(sorted(fastResult)).toEqual(sorted(slowRun.result));
+    const compared = slowRun.root.filters[0].conditionCalls;
+    expect(candidates).toBeGreaterThan(0);
+    expect(candidates * 100).toBeLessThan(compared);
+  });
+
+});
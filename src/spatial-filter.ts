@@ -0,0 +1,226 @@
+import type {Entity, Trait, World} from "koota";
+import {createCustomTreeQueryFilter, existentialQuantifier, type QueryFilter, type QueryFilterStats, type Quantifier} from "./tree-query.ts";
+
+
+export type SpatialTreeQueryFilterOptions<W extends World = World, Params = any> = {
+  // trait with numeric `x` and `y` fields, read from parents and children alike
+  position: Trait;
+  // trait with a numeric `value` field, or a fixed radius used for every entity (defaults to 0)
+  radius?: Trait | number;
+  // precise test for candidate pairs, only called if the circles of both entities overlap.
+  // If omitted, overlapping circles are a match.
+  condition?: (eid: Entity, nestedEid: Entity, world: W, params: Params) => boolean;
+  // edge length of the grid cells, defaults to twice the largest radius
+  cellSize?: number;
+  // traits the condition reads (position and radius are added automatically), see `createTreeQueryFilter`.
+  // If a condition is passed without dependencies, tracked queries re-evaluate every pair on each update.
+  dependencies?: Trait[];
+};
+
+type Point = { x: number; y: number };
+type RadiusValue = { value: number };
+
+// upper bound of grid cells per child, the cells grow if the entities are spread too far apart
+const MAX_CELLS_PER_CHILD = 4;
+
+const growFloats = (arr: Float64Array<ArrayBuffer>, size: number) =>
+  arr.length >= size ? arr : new Float64Array(Math.max(size, arr.length * 2));
+
+const growInts = (arr: Uint32Array<ArrayBuffer>, size: number) =>
+  arr.length >= size ? arr : new Uint32Array(Math.max(size, arr.length * 2));
+
+
+/**
+ * Factory for proximity filters to be used with `createTreeQuery`. Instead of comparing every
+ * parent with every child, the children get sorted into a uniform grid on each execution and only
+ * the children in the cells around a parent are considered. A pair is a candidate if the circles
+ * (position + radius) of both entities overlap, the optional `condition` decides about candidates.
+ * The resulting filter nodes can be nested and mixed with ordinary filters.
+ * <pre>
+ * const InPickupRange = createSpatialTreeQueryFilter({position: Position, radius: Radius});
+ *
+ * const spaceshipsWithPickupsInRange = createTreeQuery(
+ *   IsSpaceship, Radius, Position,
+ *   InPickupRange(IsHealthPickup, Radius, Position)
+ * );
+ * </pre>
+ * Entities without `position` never match. Note that `condition` can only narrow down the overlap test,
+ * pairs whose circles don't overlap are never passed to it.
+ * @param options
+ */
+export function createSpatialTreeQueryFilter<W extends World = World, Params = any>(
+  options: SpatialTreeQueryFilterOptions<W, Params>
+) {
+  const {position, radius = 0, condition, cellSize, dependencies} = options;
+
+  if (!position) {
+    throw new Error(`createSpatialTreeQueryFilter: a position trait is required.`);
+  }
+  if (cellSize !== undefined && !(cellSize > 0)) {
+    throw new Error(`createSpatialTreeQueryFilter: cellSize has to be a positive number, got ${cellSize}.`);
+  }
+
+  const readRadius = typeof radius === "number"
+    ? () => radius
+    : (eid: Entity) => (eid.get(radius) as RadiusValue | undefined)?.value ?? 0;
+
+  // These buffers are re-used between executions and only grow
+  let parentX = new Float64Array(64), parentY = new Float64Array(64), parentR = new Float64Array(64);
+  let childX = new Float64Array(64), childY = new Float64Array(64), childR = new Float64Array(64);
+  let childIndex = new Uint32Array(64), childCell = new Uint32Array(64);
+  let cellStart = new Uint32Array(64), cellItems = new Uint32Array(64);
+  let hasPosition = new Uint32Array(64);
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    world: W,
+    skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[],
+    stats?: QueryFilterStats,
+    params?: Params
+  ) => {
+    const parents2: number[] = [];
+    const children2: number[] = [];
+    const {min, max} = quantifier;
+    let conditionCalls = 0;
+
+    // -------------------------------------------------------------------------------------
+    // read positions and radii once per entity instead of once per pair
+
+    const P = parents.length;
+    parentX = growFloats(parentX, P);
+    parentY = growFloats(parentY, P);
+    parentR = growFloats(parentR, P);
+    hasPosition = growInts(hasPosition, P);
+    let maxRadius = 0;
+
+    for (let i = 0; i < P; i++) {
+      const pos = parents[i].get(position) as Point | undefined;
+      hasPosition[i] = pos ? 1 : 0;
+      if (!pos) continue;
+      parentX[i] = pos.x;
+      parentY[i] = pos.y;
+      parentR[i] = readRadius(parents[i]);
+      if (parentR[i] > maxRadius) maxRadius = parentR[i];
+    }
+
+    const M = children.length;
+    childX = growFloats(childX, M);
+    childY = growFloats(childY, M);
+    childR = growFloats(childR, M);
+    childIndex = growInts(childIndex, M);
+    childCell = growInts(childCell, M);
+    let n = 0, maxChildRadius = 0;
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    for (let j = 0; j < M; j++) {
+      const pos = children[j].get(position) as Point | undefined;
+      if (!pos) continue;
+      const r = readRadius(children[j]);
+      childX[n] = pos.x;
+      childY[n] = pos.y;
+      childR[n] = r;
+      childIndex[n] = j;
+      n++;
+      if (r > maxChildRadius) maxChildRadius = r;
+      if (pos.x < minX) minX = pos.x;
+      if (pos.y < minY) minY = pos.y;
+      if (pos.x > maxX) maxX = pos.x;
+      if (pos.y > maxY) maxY = pos.y;
+    }
+    if (maxChildRadius > maxRadius) maxRadius = maxChildRadius;
+
+    // -------------------------------------------------------------------------------------
+    // sort the children into grid cells (counting sort, cells are stored as ranges of cellItems)
+
+    let size = cellSize ?? (maxRadius * 2 || 1);
+    let cols = 1, rows = 1;
+    if (n > 0) {
+      const maxCells = n * MAX_CELLS_PER_CHILD + 16;
+      while (true) {
+        cols = Math.floor((maxX - minX) / size) + 1;
+        rows = Math.floor((maxY - minY) / size) + 1;
+        if (cols * rows <= maxCells) break;
+        size *= 2;
+      }
+    }
+
+    const cellCount = cols * rows;
+    cellStart = growInts(cellStart, cellCount + 1);
+    cellItems = growInts(cellItems, n);
+    cellStart.fill(0, 0, cellCount + 1);
+
+    for (let k = 0; k < n; k++) {
+      const cell = Math.floor((childX[k] - minX) / size) + Math.floor((childY[k] - minY) / size) * cols;
+      childCell[k] = cell;
+      cellStart[cell + 1]++;
+    }
+    for (let c = 0; c < cellCount; c++) cellStart[c + 1] += cellStart[c];
+    for (let k = 0; k < n; k++) cellItems[cellStart[childCell[k]]++] = k;
+    // filling moved every cell start to the end of its cell, shift them back
+    for (let c = cellCount; c > 0; c--) cellStart[c] = cellStart[c - 1];
+    cellStart[0] = 0;
+
+    // -------------------------------------------------------------------------------------
+    // match every parent against the children in the cells its circle could reach
+
+    for (let i = 0; i < P; i++) {
+      const parentEid = parents[i];
+      const collectedBefore = children2.length;
+      const pairsBefore = pairs?.length ?? 0;
+      let matches = 0;
+
+      if (hasPosition[i] && n > 0) {
+        const px = parentX[i], py = parentY[i], pr = parentR[i];
+        const reach = pr + maxChildRadius;
+        const cx0 = Math.max(0, Math.floor((px - reach - minX) / size));
+        const cx1 = Math.min(cols - 1, Math.floor((px + reach - minX) / size));
+        const cy0 = Math.max(0, Math.floor((py - reach - minY) / size));
+        const cy1 = Math.min(rows - 1, Math.floor((py + reach - minY) / size));
+
+        search:
+        for (let cy = cy0; cy <= cy1; cy++) {
+          for (let cx = cx0; cx <= cx1; cx++) {
+            const cell = cx + cy * cols;
+            for (let c = cellStart[cell], end = cellStart[cell + 1]; c < end; c++) {
+              const k = cellItems[c];
+              const dx = childX[k] - px, dy = childY[k] - py, rr = pr + childR[k];
+              if (dx * dx + dy * dy > rr * rr) continue;
+
+              const childEid = children[childIndex[k]];
+              if (condition) {
+                conditionCalls++;
+                if (!condition(parentEid, childEid, world, params!)) continue;
+              }
+
+              // the circles overlap: a match, which leaves the whole search once the quantifier is decided
+              if (++matches > max) break search;
+              children2.push(childEid);
+              pairs?.push(parentEid, childEid);
+              if (skipCollectingChildren && matches >= min && max === Infinity) break search;
+            }
+          }
+        }
+      }
+
+      if (matches >= min && matches <= max) {
+        parents2.push(parentEid);
+      } else {
+        children2.length = collectedBefore;
+        if (pairs) pairs.length = pairsBefore;
+      }
+    }
+
+    if (stats) stats.conditionCalls += conditionCalls;
+    return {parents: parents2, children: children2};
+  };
+
+  const ownDependencies = typeof radius === "number" ? [position] : [position, radius];
+  return createCustomTreeQueryFilter(queryFilter as unknown as QueryFilter, {
+    dependencies: condition && !dependencies ? undefined : [...ownDependencies, ...dependencies ?? []],
+    // overlapping circles don't care which one is the parent, a condition might
+    hints: {symmetric: !condition, cost: (outer, inner) => outer + inner},
+  });
+}
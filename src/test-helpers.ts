@@ -0,0 +1,46 @@
+import {createWorld, trait, type Entity} from "koota";
+import {createTreeQueryFilter, type TreeQueryMatch} from "./tree-query.ts";
+
+
+/*
+The traits, filters and worlds most of the tests share, a test file only adds what it checks on top.
+*/
+
+export const Position = trait({x: 0, y: 0});
+export const Radius = trait({value: 0});
+
+export const IsSpaceship = trait();
+export const IsHealthPickup = trait();
+export const IsExplosiveOnContact = trait();
+
+// the child's circle reaches into the parent's
+export const inPickupRange = (eid1: Entity, eid2: Entity) => {
+  const myPos = eid1.get(Position)!;
+  const otherPos = eid2.get(Position)!;
+
+  const myRadius = eid1.get(Radius)!.value;
+  const otherRadius = eid2.get(Radius)!.value;
+
+  const dist = Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
+  return (dist - otherRadius) <= myRadius;
+};
+
+export const InPickupRange = createTreeQueryFilter(inPickupRange, {requires: [Position, Radius]});
+
+export const createTestWorld = () => {
+  const world = createWorld();
+  for (let i = 0; i < 100; i++) world.spawn(); // just to make sure the world contains other stuff
+  return world;
+};
+
+// deterministic pseudo random numbers, so failures can be reproduced
+export const createRandom = (seed: number) => () => {
+  seed = (seed * 1664525 + 1013904223) % 4294967296;
+  return seed / 4294967296;
+};
+
+export const sorted = (entities: readonly Entity[]) => [...entities].sort((a, b) => a - b);
+
+// the entities of bindings as nested arrays: [entity, [matches of the first filter, ...]]
+export const entitiesOf = (bindings: TreeQueryMatch[]): unknown =>
+  bindings.map(({entity, matches}) => [entity, matches.map(list => entitiesOf(list))]);
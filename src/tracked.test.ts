@@ -0,0 +1,153 @@
+import {describe, expect, it} from "vitest";
+import {createWorld, relation, trait, type Entity} from "koota";
+import {createTreeQuery, createTreeQueryFilter, None} from "./tree-query.ts";
+import {
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius,
+  sorted
+} from "./test-helpers.ts";
+
+describe('tracked tree queries', () => {
+
+  let conditionCalls = 0;
+
+  const InPickupRange = createTreeQueryFilter((eid1, eid2) => {
+    conditionCalls++;
+    return inPickupRange(eid1, eid2);
+  }, {dependencies: [Position, Radius]});
+
+
+  it("keeps the result in sync with the world and reports deltas", () => {
+    const world = createTestWorld();
+
+    const query = createTreeQuery(
+      IsSpaceship, Radius, Position,
+      InPickupRange(IsHealthPickup, Radius, Position, None(InPickupRange(IsExplosiveOnContact, Radius, Position)))
+    );
+    const tracked = query.track(world);
+
+    const spaceship = world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    const pickup = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 20, y: 0}));
+
+    expect(tracked.update()).toEqual([]);
+    expect(tracked.added).toEqual([]);
+
+    // move into range
+    spaceship.set(Position, {x: 15, y: 0});
+    expect(tracked.update()).toEqual([spaceship]);
+    expect(tracked.added).toEqual([spaceship]);
+    expect(tracked.removed).toEqual([]);
+
+    // nothing happened, nothing changes
+    expect(tracked.update()).toEqual([spaceship]);
+    expect(tracked.added).toEqual([]);
+
+    // an explosive next to the pickup spoils it
+    const explosive = world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 21, y: 0}));
+    expect(tracked.update()).toEqual([]);
+    expect(tracked.removed).toEqual([spaceship]);
+    expect(tracked.result).toEqual([]);
+
+    explosive.destroy();
+    expect(tracked.update()).toEqual([spaceship]);
+    expect(tracked.added).toEqual([spaceship]);
+
+    // losing a trait the query asks for
+    pickup.remove(IsHealthPickup);
+    expect(tracked.update()).toEqual([]);
+    pickup.add(IsHealthPickup);
+    expect(tracked.update()).toEqual([spaceship]);
+
+    // the regular call agrees
+    expect(query(world)).toEqual(tracked.result);
+    tracked.dispose();
+  });
+
+
+  it("only re-evaluates pairs involving changed entities", () => {
+    const world = createWorld();
+
+    const spaceships: Entity[] = [];
+    for (let i = 0; i < 20; i++) {
+      spaceships.push(world.spawn(IsSpaceship, Radius({value: 1}), Position({x: i * 10, y: 0})));
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: i * 10, y: 100}));
+    }
+
+    const query = createTreeQuery(IsSpaceship, Radius, Position, InPickupRange(IsHealthPickup, Radius, Position));
+    const tracked = query.track(world);
+
+    conditionCalls = 0;
+    expect(tracked.update()).toEqual([]);
+    expect(conditionCalls).toBe(20 * 20);
+
+    // no changes, no work
+    conditionCalls = 0;
+    tracked.update();
+    expect(conditionCalls).toBe(0);
+
+    // one spaceship moves: it gets compared with every pickup, nothing else gets compared
+    conditionCalls = 0;
+    spaceships[3].set(Position, {x: 30, y: 99});
+    expect(tracked.update()).toEqual([spaceships[3]]);
+    expect(conditionCalls).toBe(20);
+
+    // one new pickup: it gets compared with every spaceship
+    conditionCalls = 0;
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 50, y: 1}));
+    expect(sorted(tracked.update())).toEqual(sorted([spaceships[3], spaceships[5]]));
+    expect(conditionCalls).toBe(20);
+
+    expect(sorted(query(world))).toEqual(sorted(tracked.result));
+    tracked.dispose();
+  });
+
+
+  it("re-evaluates filters without declared dependencies on every update", () => {
+    const world = createWorld();
+    const IsParentOf = relation();
+    const A = trait();
+    const B = trait();
+
+    let calls = 0;
+    const HasChild = createTreeQueryFilter((e1, e2, _world) => {
+      calls++;
+      return e1.has(IsParentOf(e2));
+    });
+
+    const a = world.spawn(A);
+    const b = world.spawn(B);
+
+    const tracked = createTreeQuery(A, HasChild(B)).track(world);
+    expect(tracked.update()).toEqual([]);
+
+    // relations aren't traits we could subscribe to, but the result stays correct
+    a.add(IsParentOf(b));
+    calls = 0;
+    expect(tracked.update()).toEqual([a]);
+    expect(tracked.added).toEqual([a]);
+    expect(calls).toBe(1);
+    tracked.dispose();
+  });
+
+
+  it("stops listening once disposed", () => {
+    const world = createWorld();
+    const query = createTreeQuery(IsSpaceship, Radius, Position, InPickupRange(IsHealthPickup, Radius, Position));
+    const tracked = query.track(world);
+    tracked.update();
+    tracked.dispose();
+
+    world.spawn(IsSpaceship, Radius({value: 10}), Position({x: 0, y: 0}));
+    world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 0, y: 0}));
+
+    conditionCalls = 0;
+    expect(tracked.update()).toEqual([]);
+    expect(conditionCalls).toBe(0);
+  });
+
+});
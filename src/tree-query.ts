@@ -1,31 +1,320 @@
 import {
+  $internal,
   cacheQuery,
   type Entity,
+  getStore,
   type QueryHash,
   type QueryModifier,
-  type QueryResult,
   type Trait,
+  type TraitRecord,
+  universe,
+  unpackEntity,
   type World
 } from "koota";
 
 
+/**
+ * Inclusive bounds on the number of children a parent has to match to pass a filter.
+ * `all` resolves both bounds to the size of the child list when the query runs.
+ */
+export type Quantifier = {
+  min: number;
+  max: number;
+  all?: boolean;
+};
+
 export type QueryFilter = (
   parents: number[],
   children: number[],
   world: World,
-  skipCollectingChildren?: boolean
-) => {
+  skipCollectingChildren?: boolean,
+  quantifier?: Quantifier,
+  // if passed, every (parent, child) match of a passing parent gets pushed as two consecutive entries
+  pairs?: number[],
+  // if passed, filters with a condition add the number of times they called it
+  stats?: QueryFilterStats,
+  // the runtime arguments the tree query was called with, passed on to the conditions
+  params?: any,
+  // if passed, the filter may fill these arrays (they come in empty) and return this object instead of new
+  // ones - the runtime passes them on every call, so executing a query doesn't produce garbage
+  out?: QueryFilterResult
+) => QueryFilterResult;
+
+export type QueryFilterResult = {
   parents: number[];
   children: number[];
 };
+
+export type QueryFilterStats = {
+  conditionCalls: number;
+};
 export type QueryFilterNode = {
   components: Trait[];
   queryFilter: QueryFilter;
   childQueries: QueryFilterNode[];
   isFilter: true;
+  // set by `None(...)`, `All(...)`, `AtLeast(...)` etc. - existential (at least one child) if omitted
+  quantifier?: Quantifier;
+  // set by `Reachable(...)`: the filter is applied repeatedly, through entities matching `via`
+  recursion?: Recursion;
+  // set by `ExcludeSelf(...)`: a parent doesn't count as a match of its own
+  excludeSelf?: boolean;
+  // traits the filter reads. Only filters that declare them can be evaluated incrementally (see `track`)
+  dependencies?: Trait[];
+  // traits that get added to the parent and child queries of the filter
+  requires?: { parent: Trait[]; child: Trait[] };
+  // what the query planner knows about the filter, see `PlannerHints`
+  hints?: { symmetric: boolean; cost: (outer: number, inner: number) => number };
+  // set by `AnyOf(...)`: alternative sub-trees on the level of the node, one of which has to match
+  branches?: QueryTree[];
+  // set if the child level is a `Shared(...)` sub-query: every node with the same one shares its child node
+  shared?: SharedQuery;
+  // set by `From(...)`: the child level comes from another world or from a function
+  source?: EntitySource;
+  // the `Where(...)` clauses of the child level, their traits are part of `components`
+  where?: WhereClause[];
+};
+
+/**
+ * Where the entities of the child level of a `From(...)` node come from: another world, or a function that
+ * returns them for each execution (it gets the world and the params the tree query was called with).
+ */
+export type EntitySource<Params = any> = World | EntityProvider<Params>;
+
+export type EntityProvider<Params = any> = (world: World, params: Params) => readonly Entity[];
+
+/**
+ * A sub-query that can be used by several filter nodes of one tree query, see `Shared`.
+ * `Traits` is only there for the compile time checks of typed filters.
+ */
+export type SharedQuery<Traits = unknown> = {
+  isShared: true;
+  components: Trait[];
+  childQueries: QueryFilterNode[];
+  where: WhereClause[];
+  traits?: Traits[];
+};
+
+/**
+ * A condition on the value of one trait of the entities of a level, see `Where`.
+ * `T` is only there for the compile time checks of typed filters.
+ */
+export type WhereClause<T extends Trait = Trait> = {
+  isWhere: true;
+  trait: T;
+  predicate: WherePredicate<T>;
+};
+
+// gets the value of the trait (only valid during the call, see `Where`), the entity, the world of its level
+// and the params the tree query was called with
+export type WherePredicate<T extends Trait = Trait, Params = any> =
+  (value: TraitRecord<T>, entity: Entity, world: World, params: Params) => boolean;
+
+/**
+ * Optional hints for the query planner of `createTreeQuery`.
+ * `symmetric`: the filter gives the same result with parent and child swapped, which allows the planner to
+ * loop over the children instead of the parents. `cost`: estimated work of one filter call with `outer`
+ * entities in the outer and `inner` entities in the inner loop - a number is taken as the cost of
+ * comparing a single pair (defaults to 1).
+ */
+export type PlannerHints = {
+  symmetric?: boolean;
+  cost?: number | ((outer: number, inner: number) => number);
+};
+
+export type Recursion = {
+  maxDepth: number;
+  via: Array<Trait | QueryModifier>;
+};
+
+export type QueryTree = Array<QueryFilterNode | Trait | WhereClause>;
+
+/**
+ * Compile time check for one level of a query tree (the arguments of `createTreeQuery` or of a filter factory):
+ * resolves to the arguments themselves if they contain the `Required` traits as well as the parent traits of
+ * every typed filter node among them (see `createTypedTreeQueryFilter`), or to a type naming the missing ones.
+ * Koota types traits by their schema, so traits with the same schema can't be told apart here.
+ */
+export type CheckedLevel<Args extends readonly unknown[], Required = never> =
+  [Exclude<Required | ParentTraitsOf<KnownElements<Args>>, Provided<KnownElements<Args>>>] extends [never]
+    ? Args
+    : Args & { "missing traits": Exclude<Required | ParentTraitsOf<KnownElements<Args>>, Provided<KnownElements<Args>>> };
+
+// the traits on a level: `Shared(...)` sub-queries stand for the traits of their own level, `Where(...)` clauses
+// for their trait
+type Provided<Element> = Element extends SharedQuery<infer T> ? T : Element extends WhereClause<infer T> ? T : Element;
+
+// the traits a typed filter node requires on its parent side
+type ParentTraitsOf<Node> = Node extends { isFilter: true; parentTraits?: Array<infer P> }
+  ? (unknown extends P ? never : P)
+  : never;
+
+// the elements of a level, without the ones typed as `any` (e.g. Koota's modifiers) which would swallow the rest
+type KnownElements<Args extends readonly unknown[]> = {
+  [K in keyof Args]: unknown extends Args[K] ? never : Args[K]
+}[number];
+
+/**
+ * One entity of a tree query result together with the entities it matched.
+ * `matches[i]` holds the matches of the i-th filter node on the entity's level (in the order they
+ * were passed), each of which is again a `TreeQueryMatch`. Negated filters never have matches.
+ */
+export type TreeQueryMatch = {
+  entity: Entity;
+  matches: TreeQueryMatch[][];
+};
+
+/**
+ * One step of the execution plan of a tree query, see `TreeQuery.plan`.
+ */
+export type TreeQueryPlanStep = {
+  // position of the filter node in the query tree: its index among the filter nodes of each level
+  path: number[];
+  // which of the two entity lists the filter loops over in its outer loop
+  direction: 'parent-driven' | 'child-driven';
+  // sizes of the parent and child queries the plan is based on
+  parents: number;
+  children: number;
+  // estimated cost of the filter call
+  cost: number;
+};
+
+/**
+ * What happened when a tree query was executed, see `TreeQuery.explain`.
+ */
+export type TreeQueryExplanation = {
+  result: readonly Entity[];
+  root: TreeQueryExplainNode;
+  // path of the filter that left nothing over, null if the result isn't empty
+  emptiedBy: number[] | null;
+  // total execution time in milliseconds
+  time: number;
+};
+
+export type TreeQueryExplainNode = {
+  // the traits and modifiers of the node's ecs query, including the ones required by filters
+  traits: Array<Trait | QueryModifier>;
+  // number of entities matching the ecs query and its `Where(...)` clauses, before any filter ran
+  queried: number;
+  // number of entities left once the filters ran (or when the execution stopped)
+  remaining: number;
+  // the filter nodes on this level, in the order they were passed
+  filters: TreeQueryExplainFilter[];
+};
+
+export type TreeQueryExplainFilter = {
+  path: number[];
+  quantifier: Quantifier;
+  // position in the execution order, -1 if the execution stopped before the filter ran
+  step: number;
+  direction: 'parent-driven' | 'child-driven';
+  // entity counts going into and coming out of the filter
+  parentsIn: number;
+  childrenIn: number;
+  parentsOut: number;
+  childrenOut: number;
+  // calls of the filter's condition (filters without a condition report 0) and time spent in milliseconds
+  conditionCalls: number;
+  time: number;
+  node: TreeQueryExplainNode;
+};
+
+export type TreeQueryOptions = {
+  // at most this many root entities are returned. The last filter on the root level stops once enough
+  // roots passed it, without it, the whole root list gets computed
+  limit?: number;
+  // every entity of a binding has to differ from all the others: no entity matches itself or an entity it was
+  // matched by (A near B near A), and sibling or cousin filters don't share one either. Searched for per root after
+  // the filters ran, see `ExcludeSelf` for a single filter node
+  distinct?: boolean;
+};
+
+/**
+ * How the matches of a parent get combined into a single value, see `TreeQuery.aggregate` and `Count`, `Sum`,
+ * `Min`, `Max` and `Reduce`. `reduce` gets called for every child the parent matched, with the value so far
+ * (starting with `initial`) and the world of the child level.
+ */
+export type TreeQueryAggregation<Value> = {
+  initial: Value;
+  reduce: (value: Value, child: Entity, parent: Entity, world: World) => Value;
+};
+
+export type TreeQueryAggregateOptions = TreeQueryOptions & {
+  // writes the value of every parent into this field of a trait as well, parents without the trait get it added
+  into?: { trait: Trait; key: string };
+};
+
+export type TreeQuery<Params = any> = {
+  // `params` are passed on to the conditions of the filters, see `createTreeQueryFilter`
+  (world: World, params?: Params, options?: TreeQueryOptions): readonly Entity[];
+  /**
+   * Executes the query like a regular call, but returns each surviving root entity
+   * together with the entities it matched at every filter edge.
+   */
+  bindings(world: World, params?: Params, options?: TreeQueryOptions): TreeQueryMatch[];
+  // the first root entity of the result, only executes as much as needed to find it (see `limit`)
+  queryFirst(world: World, params?: Params): Entity | undefined;
+  /**
+   * Returns a variant of the query that sorts its result by the given score, lowest first.
+   * Sorting needs the complete root list, so a `limit` only cuts the sorted result.
+   */
+  orderBy(score: (entity: Entity, world: World, params: Params) => number): OrderedTreeQuery<Params>;
+  /**
+   * Keeps the query result up to date for one world: subscribes to the traits of the query and the
+   * dependencies of its filters and only re-evaluates pairs involving entities that changed.
+   */
+  track(world: World): TrackedTreeQuery<Params>;
+  /**
+   * Returns the steps the query would execute for the current state of the world, in execution order,
+   * without executing them.
+   */
+  plan(world: World): TreeQueryPlanStep[];
+  /**
+   * Executes the query and reports what every filter did: entity counts before and after,
+   * condition calls, time spent, and which filter emptied the result.
+   */
+  explain(world: World, params?: Params): TreeQueryExplanation;
+  /**
+   * Executes the query like a regular call, but writes the result into `out` (replacing its content) instead
+   * of a new array. With filters that support it (see `QueryFilter`), this doesn't produce garbage - made for
+   * queries that run every frame. Limits, bindings, tracking, `distinct`, `ExcludeSelf(...)`, `explain` and
+   * fractional values read by `Where(...)` clauses still allocate.
+   */
+  into(world: World, out: Entity[], params?: Params, options?: TreeQueryOptions): Entity[];
+  /**
+   * Executes the query and combines the matches of each parent of one filter node into a value, e.g. the threat
+   * of all enemies in range per root. `path` picks the filter node (see `TreeQueryPlanStep`), the result holds
+   * every parent of it that's left once the query ran - the result of the query for filter nodes on the root
+   * level, the parents the entities of the result reach (a limit included) for the others. The matches are the
+   * pairs the filter collects while it runs, the conditions aren't called again.
+   */
+  aggregate<Value>(
+    world: World,
+    path: number[],
+    aggregation: TreeQueryAggregation<Value>,
+    params?: Params,
+    options?: TreeQueryAggregateOptions
+  ): Map<Entity, Value>;
+};
+
+export type OrderedTreeQuery<Params = any> = {
+  (world: World, params?: Params, options?: TreeQueryOptions): readonly Entity[];
+  bindings(world: World, params?: Params, options?: TreeQueryOptions): TreeQueryMatch[];
+  // the root entity with the lowest score
+  queryFirst(world: World, params?: Params): Entity | undefined;
 };
 
-export type QueryTree = Array<QueryFilterNode | Trait>;
+export type TrackedTreeQuery<Params = any> = {
+  // re-evaluates what changed since the last update, returns the current result.
+  // Everything gets re-evaluated if the params differ (shallowly) from the ones of the last update
+  update(params?: Params): readonly Entity[];
+  // the result of the last update and the root entities that entered or left it with that update
+  readonly result: readonly Entity[];
+  readonly added: readonly Entity[];
+  readonly removed: readonly Entity[];
+  // removes all world subscriptions
+  dispose(): void;
+};
 
 /**
  *
@@ -62,7 +351,9 @@ export type QueryTree = Array<QueryFilterNode | Trait>;
  *   -----------------------------------------------------------------
  * </pre>
  */
-export function createTreeQuery(...queryTree: QueryTree) {
+export function createTreeQuery<Params = any, const Tree extends QueryTree = QueryTree>(
+  ...queryTree: CheckedLevel<Tree>
+): TreeQuery<Params> {
   if (queryTree.length === 0) {
     throw `createTreeQuery: Tree query empty`;
   }
@@ -79,8 +370,8 @@ export function createTreeQuery(...queryTree: QueryTree) {
   // flatten tree
 
   // Rough overview of the query execution algorithm:
-  // For each node (in reverse depth-first tree traversal order)
-  //  execute the parent ecs query and save the result
+  // Execute all ecs queries and plan the order of the edges based on the sizes of their results
+  // For each edge (children before parents, cheapest sibling first)
   //  For each (parent, child) pair
   //    reduce both child and parent list by filtering(parentEids, childEids)
   //    early out if any intermediate result is empty
@@ -92,6 +383,12 @@ export function createTreeQuery(...queryTree: QueryTree) {
   type WipQuery = {
     components: Trait[];
     id: number;
+    // see `From`: the world the query runs in (null for the world the tree query runs on), or the function
+    // providing the entities instead
+    world: World | null;
+    provider: EntityProvider | null;
+    // see `Where`
+    where: WhereClause[];
   };
 
   type QueryTuple = {
@@ -102,14 +399,94 @@ export function createTreeQuery(...queryTree: QueryTree) {
   type EvalNode = {
     id: number;
     children: Array<{ edge: EvalEdge; node: EvalNode }>;
+    // same as children, sorted by the planner before each execution
+    plannedChildren: Array<{ edge: EvalEdge; node: EvalNode }>;
+    // only for the nodes of `AnyOf(...)`: the entities that passed at least one branch
+    anyOf: Set<Entity> | null;
+    // the node of a Shared(...) sub-query that more than one edge leads to
+    shared: boolean;
+    // see `WipQuery`
+    world: World | null;
+    provider: EntityProvider | null;
+    components: Trait[];
     query: QueryHash<any>;
-    updateList: QueryResult;
+    // the `Where(...)` clauses, applied to the entities of the ecs query (see `queryNode`)
+    where: WhereState[];
+    // the entities of the node that are still in the running, narrowed in place during execution
+    updateList: Entity[];
+    // the last result of the node's ecs query, and the version of the Koota query it was taken at (see `queryNode`)
+    queried: Entity[];
+    queriedFrom: KootaQuery | null;
+    queriedVersion: number;
+    // set to the current stamp once the planner visited the node
+    plannedStamp: number;
   };
 
   type EvalEdge = {
     filter: any;
     parentNode: EvalNode;
     childNode: EvalNode;
+    quantifier: Quantifier;
+    // true if parents can pass without any child (e.g. None, All with an empty child list)
+    allowsEmptyChildren: boolean;
+    // false for edges below an edge that allows empty children: an empty result there doesn't empty the whole query
+    canEarlyOut: boolean;
+    // flat (parent, child) pairs, only collected when executing for bindings
+    pairs: Entity[];
+    // the arrays the filter fills on each run, see `QueryFilter`
+    out: QueryFilterResult;
+    // only for `Reachable(...)` edges: the query of the entities a path may lead through
+    recursion: { maxDepth: number; via: QueryHash<any> } | null;
+    // see `ExcludeSelf`
+    excludeSelf: boolean;
+    // the edges of AnyOf(...) nodes, which match every entity with itself
+    sameEntity: boolean;
+    // null if the filter didn't declare which traits it reads
+    dependencies: Trait[] | null;
+    // see `TreeQueryPlanStep`
+    path: number[];
+    symmetric: boolean;
+    cost: (outer: number, inner: number) => number;
+    // set by the planner: loop over the children instead of the parents, and the estimated cost of the
+    // edge alone and together with everything below it
+    childDriven: boolean;
+    estimate: number;
+    subtreeEstimate: number;
+    // list sizes of both nodes after the edge last ran, it runs again if one of them shrank since (see `execute`)
+    seenParents: number;
+    seenChildren: number;
+  };
+
+  type WhereState = {
+    trait: Trait;
+    predicate: WherePredicate;
+    // the keys of a schema trait (none for traits with a factory, their store holds the values themselves), and
+    // the record their values are copied into for each entity
+    keys: string[];
+    record: Record<string, unknown>;
+  };
+
+  // what a tracked query remembers per edge from its previous evaluation
+  type EdgeState = {
+    children: Set<Entity>;
+    matchesByParent: Map<Entity, Entity[]>;
+  };
+
+  // what `explain` records while executing
+  type EdgeRun = Omit<TreeQueryExplainFilter, "path" | "quantifier" | "direction" | "node">;
+
+  type ExecutionProfile = {
+    queried: Map<EvalNode, number>;
+    runs: Map<EvalEdge, EdgeRun>;
+    // the edge that caused the early out
+    emptiedBy: EvalEdge | null;
+    stats: QueryFilterStats;
+  };
+
+  type TrackerState = {
+    edgeStates: Map<EvalEdge, EdgeState>;
+    // entities that had a filter dependency added, removed or changed since the last update
+    dirty: Set<Entity>;
   };
   // -------------------------------------------------------------------------------------------------------------------
 
@@ -130,12 +507,10 @@ export function createTreeQuery(...queryTree: QueryTree) {
 
   // Let query construction begin:
 
-  const filterWithTuple: Array<[QueryFilter, QueryTuple]> = [];
+  const filterWithTuple: Array<[QueryFilterNode, QueryTuple]> = [];
   const finalQueries: WipQuery[] = [];
-  const childQueryObjects: {
-    children: QueryFilterNode[];
-    queryObject: { id: number; components: Trait[] };
-  }[] = [];
+  // the child query of each Shared(...) sub-query, created by the first filter node that uses it
+  const sharedQueryObjects = new Map<SharedQuery, WipQuery>();
   const nodeStore = new Map<number, EvalNode>();
 
   const buildQueryRecursive = (
@@ -143,33 +518,61 @@ export function createTreeQuery(...queryTree: QueryTree) {
     foundNodeComponents: boolean,
     parentQueryObject: any
   ) => {
-    childQueryObjects.length = 0;
+    // filter nodes on this level that have children of their own, continued with once the level is done
+    const childQueryObjects: { children: QueryFilterNode[]; queryObject: WipQuery }[] = [];
 
     const parentQueryPassed = !!parentQueryObject;
-    const nextParentQuery: { id: number; components: Trait[] } = parentQueryObject ?? {
+    const nextParentQuery: WipQuery = parentQueryObject ?? {
       id: genId(),
       components: [],
+      world: null,
+      provider: null,
+      where: [],
     };
     const queryLen = query.length;
     let nextNodeFind = false;
+    // traits required by the filters on this level, added once all components of the level are known
+    const parentRequires: Trait[][] = [];
+    // AnyOf(...) nodes on this level, their branches start with all components of the level
+    const anyOfObjects: { branches: QueryTree[]; queryObject: WipQuery }[] = [];
 
     for (let idx = 0; idx < queryLen; idx++) {
       const node = query[idx];
 
       // node is the result of a filter node
       if ((node as QueryFilterNode).isFilter) {
-        const {queryFilter} = node as QueryFilterNode;
-        nextNodeFind = nextNodeFind || (node as QueryFilterNode).components.length > 0;
-
-        // create the raw query
-        const nextChildQuery = {
+        const {components, requires, branches, shared, source, where} = node as QueryFilterNode;
+        nextNodeFind = nextNodeFind || components.length > 0;
+
+        // create the raw query (copying the components, we might add required traits).
+        // The node of AnyOf(...) stands for the parent entities themselves, so it shares their components
+        // and their source. Other child levels stay in the world of their parent, unless From(...) says otherwise.
+        // Filter nodes with the same Shared(...) sub-query all point to the query of the first one
+        const world = source && typeof source !== "function" ? source : nextParentQuery.world;
+        const provider = typeof source === "function" ? source : branches ? nextParentQuery.provider : null;
+        const sharedQuery = shared && sharedQueryObjects.get(shared);
+        if (sharedQuery && (sharedQuery.world !== world || sharedQuery.provider !== provider)) {
+          throw new Error(`createTreeQuery: every filter node of a Shared(...) sub-query has to take it from the same source.`);
+        }
+        const nextChildQuery = sharedQuery ?? {
           id: genId(),
-          components: (node as QueryFilterNode).components,
+          components: branches ? nextParentQuery.components : [...components],
+          world,
+          provider,
+          where: branches ? nextParentQuery.where : [...where ?? []],
         };
+        if (shared) sharedQueryObjects.set(shared, nextChildQuery);
+        if (branches) {
+          anyOfObjects.push({branches, queryObject: nextChildQuery});
+        }
+        if (requires) {
+          addRequiredTraits(nextChildQuery.components, requires.child, "child");
+          parentRequires.push(requires.parent);
+        }
 
-        finalQueries.push(nextChildQuery);
+        if (!sharedQuery) finalQueries.push(nextChildQuery);
 
-        if ((node as QueryFilterNode).childQueries.length > 0) {
+        if (!sharedQuery && (node as QueryFilterNode).childQueries.length > 0) {
           // there are children left
           childQueryObjects.push({
             children: (node as QueryFilterNode).childQueries,
@@ -178,7 +581,7 @@ export function createTreeQuery(...queryTree: QueryTree) {
         }
 
         filterWithTuple.push([
-          queryFilter,
+          node as QueryFilterNode,
           {
             parent: nextParentQuery,
             child: nextChildQuery,
@@ -186,12 +589,21 @@ export function createTreeQuery(...queryTree: QueryTree) {
         ]);
       }
 
+      // node is a condition on the value of a trait, which makes the trait a component as well
+      else if ((node as WhereClause).isWhere) {
+        addWhereClause(nextParentQuery.components, nextParentQuery.where, node as WhereClause);
+      }
+
       // node is regular component
       else {
         nextParentQuery.components.push(node as Trait);
       }
     }
 
+    for (const required of parentRequires) {
+      addRequiredTraits(nextParentQuery.components, required, "parent");
+    }
+
     if (nextParentQuery.components.length === 0 && queryLen > 0 && !foundNodeComponents) {
       nextParentQuery.id = genId();
       finalQueries.push(nextParentQuery);
@@ -205,6 +617,22 @@ export function createTreeQuery(...queryTree: QueryTree) {
     for (const {children: _children, queryObject} of childQueryObjects) {
       buildQueryRecursive(_children, nextNodeFind, queryObject);
     }
+
+    // every branch becomes a node of its own, connected to the AnyOf(...) node by the same entity
+    for (const {branches, queryObject} of anyOfObjects) {
+      for (const branch of branches) {
+        const branchQuery = {
+          id: genId(),
+          components: [...nextParentQuery.components],
+          world: nextParentQuery.world,
+          provider: nextParentQuery.provider,
+          where: [...nextParentQuery.where],
+        };
+        finalQueries.push(branchQuery);
+        filterWithTuple.push([sameEntityNode, {parent: queryObject, child: branchQuery}]);
+        buildQueryRecursive(branch, true, branchQuery);
+      }
+    }
   };
 
   // -------------------------------------------------------------------------------------------------------------------
@@ -215,9 +643,24 @@ export function createTreeQuery(...queryTree: QueryTree) {
 
   // Create all pure ecs queries
   const queryById = new Map<number, QueryHash<any>>();
-  for (const {id, components} of finalQueries) {
+  // traits that decide which entities end up in the node queries, as well as the ones the filters read
+  const structuralTraits = new Set<Trait>();
+  const dependencyTraits = new Set<Trait>();
+  // the worlds of From(...) nodes, tracked queries subscribe to them as well
+  const sourceWorlds = new Set<World>();
+  // the traits `Where(...)` clauses read, a change of their values can make entities enter or leave a node
+  const whereTraits = new Set<Trait>();
+  for (const {id, components, world, where} of finalQueries) {
     const hash = cacheQuery(...components); // Since Koota eval's queries on demand (or accepts a query hash), we hash here
     queryById.set(id, hash);
+    collectTraits(components, structuralTraits);
+    if (world) sourceWorlds.add(world);
+    for (const {trait} of where) {
+      if (excludes(components, trait)) {
+        throw new Error(`createTreeQuery: a Where(...) clause reads a trait that its level excludes with Not(...).`);
+      }
+      whereTraits.add(trait);
+    }
   }
 
   if (filterWithTuple.length === 0) {
@@ -229,7 +672,14 @@ export function createTreeQuery(...queryTree: QueryTree) {
 
   const rootId = filterWithTuple[0][1].parent.id;
 
-  for (const [filter, tuple] of filterWithTuple) {
+  const whereStateOf = ({trait, predicate}: WhereClause): WhereState => ({
+    trait,
+    predicate,
+    keys: typeof trait.schema === "function" ? [] : Object.keys(trait.schema),
+    record: {},
+  });
+
+  for (const [filterNode, tuple] of filterWithTuple) {
     const {parent, child} = tuple;
     const childQuery = queryById.get(child.id)!;
     const parentQuery = queryById.get(parent.id)!;
@@ -238,34 +688,85 @@ export function createTreeQuery(...queryTree: QueryTree) {
     if (!parentNode) {
       parentNode = {
         id: parent.id,
+        components: parent.components,
         query: parentQuery,
         children: [],
-        updateList: [] as unknown as QueryResult,
+        plannedChildren: [],
+        anyOf: null,
+        shared: false,
+        world: parent.world,
+        provider: parent.provider,
+        where: parent.where.map(whereStateOf),
+        updateList: [],
+        queried: [],
+        queriedFrom: null,
+        queriedVersion: -1,
+        plannedStamp: 0,
       };
       nodeStore.set(parent.id, parentNode!);
     }
 
+    // the child node already exists if it belongs to a Shared(...) sub-query, the edge is new either way
     let childNode = nodeStore.get(child.id);
     if (!childNode) {
       childNode = {
         id: child.id,
+        components: child.components,
         query: childQuery,
         children: [],
-        updateList: [] as unknown as QueryResult,
-      };
-
-      const edge = {
-        filter,
-        parentNode,
-        childNode,
+        plannedChildren: [],
+        anyOf: filterNode.branches ? new Set<Entity>() : null,
+        shared: false,
+        world: child.world,
+        provider: child.provider,
+        where: child.where.map(whereStateOf),
+        updateList: [],
+        queried: [],
+        queriedFrom: null,
+        queriedVersion: -1,
+        plannedStamp: 0,
       };
-      parentNode.children.push({
-        edge,
-        node: childNode,
-      });
-
       nodeStore.set(child.id, childNode);
+    } else {
+      childNode.shared = true;
     }
+
+    const edge = {
+      filter: filterNode.queryFilter,
+      parentNode,
+      childNode,
+      quantifier: filterNode.quantifier ?? existentialQuantifier,
+      allowsEmptyChildren: !!filterNode.quantifier && (filterNode.quantifier.min === 0 || !!filterNode.quantifier.all),
+      canEarlyOut: true,
+      pairs: [],
+      out: {parents: [], children: []},
+      // entities in between are parent and child of the filter at the same time
+      recursion: filterNode.recursion
+        ? {
+          maxDepth: filterNode.recursion.maxDepth,
+          via: cacheQuery(...withRequiredTraits(filterNode.recursion.via, filterNode.requires)),
+        }
+        : null,
+      excludeSelf: filterNode.excludeSelf ?? false,
+      sameEntity: filterNode.queryFilter === sameEntityNode.queryFilter,
+      // nothing tells us when the entities of a provider change, they're compared again on every update
+      dependencies: parentNode.provider || childNode.provider ? null : filterNode.dependencies ?? null,
+      path: [],
+      symmetric: filterNode.hints?.symmetric ?? false,
+      cost: filterNode.hints?.cost ?? pairwiseCost,
+      childDriven: false,
+      estimate: 0,
+      subtreeEstimate: 0,
+      seenParents: 0,
+      seenChildren: 0,
+    };
+    if (filterNode.recursion) collectTraits(filterNode.recursion.via, structuralTraits);
+    if (filterNode.dependencies) collectTraits(filterNode.dependencies, dependencyTraits);
+    parentNode.children.push({
+      edge,
+      node: childNode,
+    });
+    parentNode.plannedChildren.push(parentNode.children[parentNode.children.length - 1]);
   }
 
   // -------------------------------------------------------------------------------------------------------------------
@@ -281,20 +782,60 @@ export function createTreeQuery(...queryTree: QueryTree) {
 
   // These scoped data structures will be re-used when executing the query
   const edgesFlattened: EvalEdge[] = [];
-  const queriesComputed = new Set<EvalNode>();
+  const nodesFlattened: EvalNode[] = [];
+  const edgeOrder: EvalEdge[] = [];
   const emptyResultsArr: never[] = [];
+  const resolvedQuantifier: Quantifier = {min: 0, max: 0};
+  const visited = new Set<Entity>();
+  const viaSet = new Set<Entity>();
+  const lookupSet = new Set<Entity>();
+  // Membership tests while narrowing (see `keepOnly`), without the garbage of clearing a Set: an entity is
+  // marked if the slot of its index holds it together with the current stamp
+  const markedEntities: number[] = [];
+  const markStamps: number[] = [];
+  let markStamp = 0;
+  // the nodes the planner visited hold the current stamp, see `plan`
+  let planStamp = 0;
+  let orderedEdges = 0;
+  // the params of the current execution, every filter call gets them
+  let params: Params | undefined = undefined;
+  // set while executing with the `distinct` option, see `executeDistinct`
+  let distinct = false;
+  const relaxedQuantifier: Quantifier = {min: 0, max: Infinity};
+  // set while executing for `aggregate`: the edges that collect their pairs, even if the others don't
+  let aggregatedEdges: EvalEdge[] = [];
+  // set by `filterLimited` if it stopped before it got to every parent, see `execute`
+  let limitCutShort = false;
   // -------------------------------------------------------------------------------------------------------------------
 
-  // Turning the tree structure into flat traversal list for fast execution.
-  // For this we traverse the nodes in depth-first order and store the edges between.
-  // The edges are what we'll actually need at execution time.
+  // Turning the tree structure into flat lists of all nodes and edges. The order the edges are executed in is up
+  // to the planner, which runs before each execution.
+  // Alongside we track whether a node sits below an edge that lets parents pass without children (e.g. a negation),
+  // edges in there are not allowed to early out. The nodes of Shared(...) sub-queries are reached on several paths,
+  // they're listed once (with the path they're reached on first), but below any such edge on one path is enough.
   const nodeStack: EvalNode[] = [rootNode];
+  const toleratesEmptyStack: boolean[] = [false];
+  const pathStack: number[][] = [[]];
+  const flattenedNodes = new Set<EvalNode>();
+  const flattenedEdges = new Set<EvalEdge>();
   while (nodeStack.length > 0) {
     const node = nodeStack.pop()!;
-    for (const child of node.children) {
+    const toleratesEmpty = toleratesEmptyStack.pop()!;
+    const path = pathStack.pop()!;
+    if (!flattenedNodes.has(node)) nodesFlattened.push(node);
+    flattenedNodes.add(node);
+    node.children.forEach((child, i) => {
+      child.edge.canEarlyOut = child.edge.canEarlyOut && !toleratesEmpty;
+      if (!flattenedEdges.has(child.edge)) {
+        child.edge.path = [...path, i];
+        edgesFlattened.push(child.edge);
+        flattenedEdges.add(child.edge);
+      }
       nodeStack.push(child.node);
-      edgesFlattened.push(child.edge);
-    }
+      // a branch of AnyOf(...) that comes up empty doesn't empty the query either
+      toleratesEmptyStack.push(toleratesEmpty || child.edge.allowsEmptyChildren || !!child.node.anyOf);
+      pathStack.push(child.edge.path);
+    });
   }
 
   // small clean up for data that we definitely won't need anymore - just to give the GC a friendly hint :-)
@@ -302,156 +843,1957 @@ export function createTreeQuery(...queryTree: QueryTree) {
   queryById.clear();
   finalQueries.length = 0;
   filterWithTuple.length = 0;
-  childQueryObjects.length = 0;
+  sharedQueryObjects.clear();
   nodeStack.length = 0;
-
-  // ------
-  // we need to reverse traversal order to start at the innermost query
-  // (otherwise we'd have to update previous results)
-  edgesFlattened.reverse();
-  // ------
+  toleratesEmptyStack.length = 0;
+  pathStack.length = 0;
+  flattenedNodes.clear();
+  flattenedEdges.clear();
 
   
   // ===================================================================================================================
   // The final runtime function:
   // This is what gets called when we execute a generated query.
 
-  return (world: World) => {
-    // We need to execute all the queries, and we need to perform all the filter actions.
-    // We execute all queries once, then we're safe and can re-use arrays to narrow results down
-    queriesComputed.clear();
-    emptyResultsArr.length = 0;
+  // The planner: with the results of all ecs queries at hand, every edge gets a cost estimate from its filter.
+  // Symmetric filters loop over whichever list is cheaper in the outer loop. An edge can only run once everything
+  // below its child node has run, but the order of siblings is free: the cheapest subtree goes first, so an empty
+  // result stops the execution early and later siblings work with fewer parents.
+  // Nodes of Shared(...) sub-queries are estimated and ordered once, where they're reached first.
+  const estimateNode = (node: EvalNode): number => {
+    if (node.plannedStamp === planStamp) return 0;
+    node.plannedStamp = planStamp;
+    let total = 0;
+    for (const {edge, node: childNode} of node.children) {
+      const P = node.updateList.length;
+      const C = childNode.updateList.length;
+      const parentDriven = edge.cost(P, C);
+      // `Reachable(...)` edges call their filter in both directions anyway, they're estimated like a single step
+      const childDriven = edge.symmetric && !edge.recursion ? edge.cost(C, P) : Infinity;
+      edge.childDriven = childDriven < parentDriven;
+      edge.estimate = Math.min(parentDriven, childDriven);
+      edge.subtreeEstimate = edge.estimate + estimateNode(childNode);
+      total += edge.subtreeEstimate;
+    }
+    return total;
+  };
+
+  // Insertion sort: stable like `Array.prototype.sort`, which allocates on every call - and nodes have few children
+  const sortByEstimate = (children: EvalNode["plannedChildren"]) => {
+    for (let i = 1; i < children.length; i++) {
+      const child = children[i];
+      let j = i;
+      for (; j > 0 && children[j - 1].edge.subtreeEstimate > child.edge.subtreeEstimate; j--) children[j] = children[j - 1];
+      children[j] = child;
+    }
+  };
+
+  const orderNode = (node: EvalNode) => {
+    if (node.plannedStamp === planStamp) return;
+    node.plannedStamp = planStamp;
+    sortByEstimate(node.plannedChildren);
+    for (const {edge, node: childNode} of node.plannedChildren) {
+      orderNode(childNode);
+      edgeOrder[orderedEdges++] = edge;
+    }
+  };
+
+  // The entities of a node, copied into its own list. Koota creates a new array on every query, so we keep the
+  // result and only run the query again once its version changed - a query running every frame doesn't produce
+  // garbage while its entities stay the same. Values change without a new version, the `Where(...)` clauses
+  // are applied on every execution.
+  const queryNode = (node: EvalNode, world: World) => {
+    if (node.provider) {
+      copyInto(node.updateList, node.provider(world, params));
+      if (node.where.length > 0) applyWhere(node, world);
+      return;
+    }
+    const source = node.world ?? world;
+    const known = kootaQueryOf(source, node.query);
+    if (!known || known.isTracking || known !== node.queriedFrom || known.version !== node.queriedVersion) {
+      copyInto(node.queried, source.query(node.query));
+      const current = kootaQueryOf(source, node.query);
+      node.queriedFrom = current ?? null;
+      node.queriedVersion = current?.version ?? -1;
+    }
+    copyInto(node.updateList, node.queried);
+    if (node.where.length > 0) applyWhere(node, source);
+  };
+
+  // Keeps the entities of a node that pass all of its `Where(...)` clauses, before any filter gets to see them
+  const applyWhere = (node: EvalNode, world: World) => {
+    const list = node.updateList;
+    let kept = 0;
+    for (let i = 0; i < list.length; i++) {
+      if (passesWhere(node, list[i], world)) list[kept++] = list[i];
+    }
+    truncate(list, kept);
+  };
+
+  // Schema traits are read from the stores into the record of the clause, `entity.get(...)` would create a new
+  // object for every entity (V8 still boxes fractional numbers written into it). The entities of a provider can
+  // belong to any world and don't need to have the trait, they're read with `entity.get(...)` (and don't pass
+  // without it).
+  const passesWhere = (node: EvalNode, entity: Entity, world: World) => {
+    for (let c = 0; c < node.where.length; c++) {
+      const {trait, predicate, keys, record} = node.where[c];
+      let value: unknown;
+      if (node.provider) {
+        if (!entity.has(trait)) return false;
+        value = entity.get(trait);
+      } else {
+        const store: TraitStore = getStore(world, trait);
+        const index = entity & ENTITY_ID_MASK;
+        if (Array.isArray(store)) {
+          value = store[index];
+        } else {
+          for (let k = 0; k < keys.length; k++) record[keys[k]] = store[keys[k]][index];
+          value = record;
+        }
+      }
+      if (!predicate(value, entity, world, params)) return false;
+    }
+    return true;
+  };
+
+  const plan = (world: World) => {
+    // We need to execute all the queries anyway, and we need their sizes for planning.
+    // Every node gets its own copy of the entities, which is narrowed down in place from there
+    for (const node of nodesFlattened) queryNode(node, world);
+    planStamp++;
+    estimateNode(rootNode);
+    planStamp++;
+    orderedEdges = 0;
+    orderNode(rootNode);
+    truncate(edgeOrder, orderedEdges);
+  };
+
+  // `Reachable(...)` edges: a parent matches if a chain of filter steps leads from it to a child, where every
+  // entity in between matches the `via` query. We search backwards from all children at once, one step per depth:
+  // the entities that have a match in the current frontier form the next one. Visited entities are never
+  // looked at again, so cycles end the search.
+  const filterRecursive = (edge: EvalEdge, world: World, collectPairs: boolean, stats?: QueryFilterStats) => {
+    const {filter, parentNode, childNode, quantifier, pairs} = edge;
+    const {maxDepth, via} = edge.recursion!;
+    const viaList = (childNode.world ?? world).query(via);
+    const parentList = parentNode.updateList;
+
+    visited.clear();
+    viaSet.clear();
+    lookupSet.clear();
+    for (let i = 0; i < viaList.length; i++) viaSet.add(viaList[i]);
+    for (let i = 0; i < parentList.length; i++) lookupSet.add(parentList[i]);
+
+    // every entity that could be a step on a path (or its start)
+    const candidates: Entity[] = [...viaList];
+    for (let i = 0; i < parentList.length; i++) {
+      if (!viaSet.has(parentList[i])) candidates.push(parentList[i]);
+    }
+
+    const reachesChild = new Set<Entity>();
+    let frontier: readonly Entity[] = childNode.updateList;
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      const unvisited = candidates.filter(eid => !visited.has(eid));
+      if (unvisited.length === 0) break;
+
+      const steps = filter(unvisited, frontier, world, true, undefined, undefined, stats, params).parents as Entity[];
+      const next: Entity[] = [];
+      for (let i = 0; i < steps.length; i++) {
+        const eid = steps[i];
+        visited.add(eid);
+        if (lookupSet.has(eid)) reachesChild.add(eid);
+        if (viaSet.has(eid)) next.push(eid);
+      }
+      frontier = next;
+    }
+
+    // None(Reachable(...)) keeps the parents that don't reach any child
+    const negated = quantifier.max === 0;
+    const parents = parentList.filter(eid => reachesChild.has(eid) !== negated);
+    const children = negated || parents.length === 0 ? emptyResultsArr : childNode.updateList;
+
+    // Bindings need to know which children each parent reaches: search forward from each parent on its own.
+    // The parent isn't visited before its first step, just like above a cycle may lead back to it.
+    if (collectPairs && !negated) {
+      lookupSet.clear();
+      for (let i = 0; i < childNode.updateList.length; i++) lookupSet.add(childNode.updateList[i]);
+      const stepTargets = [...viaList, ...childNode.updateList.filter(eid => !viaSet.has(eid))];
+
+      for (const parentEid of parents) {
+        visited.clear();
+        let frontier: Entity[] = [parentEid];
+        for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+          const unvisited = stepTargets.filter(eid => !visited.has(eid));
+          if (unvisited.length === 0) break;
+
+          const reached = filter(frontier, unvisited, world, false, undefined, undefined, stats, params).children as Entity[];
+          const next: Entity[] = [];
+          for (let i = 0; i < reached.length; i++) {
+            const eid = reached[i];
+            if (visited.has(eid)) continue;
+            visited.add(eid);
+            if (lookupSet.has(eid)) pairs.push(parentEid, eid);
+            if (viaSet.has(eid)) next.push(eid);
+          }
+          frontier = next;
+        }
+      }
+    }
 
-    for (let i = 0, N = edgesFlattened.length; i < N; i++) {
-      const {filter, parentNode, childNode} = edgesFlattened[i];
+    visited.clear();
+    viaSet.clear();
+    lookupSet.clear();
+    return {parents, children};
+  };
 
-      // We make sure each query has been called at least once!
-      if (!queriesComputed.has(parentNode)) {
-        parentNode.updateList = world.query(parentNode.query);
-        queriesComputed.add(parentNode);
+  // Tracked queries: instead of running the filter on all (parent, child) pairs, we only run it on the pairs
+  // that involve an entity that is new to the edge or had a dependency changed. All other pairs keep their
+  // result from the previous evaluation. Filters without declared dependencies see every entity as changed.
+  const everyCount: Quantifier = {min: 0, max: Infinity};
+
+  const filterIncremental = (edge: EvalEdge, world: World, tracker: TrackerState, collectPairs: boolean) => {
+    const {filter, parentNode, childNode, quantifier, pairs, dependencies, excludeSelf} = edge;
+    const {dirty} = tracker;
+    const parentList = parentNode.updateList;
+    const childList = childNode.updateList;
+
+    let state = tracker.edgeStates.get(edge);
+    if (!state) tracker.edgeStates.set(edge, state = {children: new Set(), matchesByParent: new Map()});
+    const previous = state.matchesByParent;
+
+    const childSet = new Set<Entity>(childList);
+    const freshChildren: Entity[] = [];
+    const freshChildSet = new Set<Entity>();
+    for (const childEid of childList) {
+      if (!dependencies || dirty.has(childEid) || !state.children.has(childEid)) {
+        freshChildren.push(childEid);
+        freshChildSet.add(childEid);
       }
-      if (!queriesComputed.has(childNode)) {
-        childNode.updateList = world.query(childNode.query);
-        queriesComputed.add(childNode);
+    }
+
+    // fresh parents are compared with every child, known parents only with fresh children
+    const freshParents: Entity[] = [];
+    const knownParents: Entity[] = [];
+    for (const parentEid of parentList) {
+      if (!dependencies || dirty.has(parentEid) || !previous.has(parentEid)) freshParents.push(parentEid);
+      else knownParents.push(parentEid);
+    }
+
+    const matchesByParent = new Map<Entity, Entity[]>();
+    const newPairs: Entity[] = [];
+    if (freshParents.length > 0 && childList.length > 0) {
+      filter(freshParents, childList, world, false, everyCount, newPairs, undefined, params);
+    }
+    for (const parentEid of knownParents) {
+      const kept = previous.get(parentEid)!.filter(eid => childSet.has(eid) && !freshChildSet.has(eid));
+      matchesByParent.set(parentEid, kept);
+    }
+    if (knownParents.length > 0 && freshChildren.length > 0) {
+      filter(knownParents, freshChildren, world, false, everyCount, newPairs, undefined, params);
+    }
+    for (const parentEid of freshParents) matchesByParent.set(parentEid, []);
+    for (let i = 0; i < newPairs.length; i += 2) {
+      if (excludeSelf && newPairs[i] === newPairs[i + 1]) continue;
+      matchesByParent.get(newPairs[i])!.push(newPairs[i + 1]);
+    }
+
+    state.children = childSet;
+    state.matchesByParent = matchesByParent;
+
+    // with every match at hand, the quantifier decides
+    const parents: Entity[] = [];
+    const children: Entity[] = [];
+    for (const parentEid of parentList) {
+      const matches = matchesByParent.get(parentEid)!;
+      const all = childList.length - (excludeSelf && childSet.has(parentEid) ? 1 : 0);
+      const min = quantifier.all ? all : quantifier.min;
+      const max = quantifier.all ? all : quantifier.max;
+      if (matches.length < min || matches.length > max) continue;
+      parents.push(parentEid);
+      for (const childEid of matches) {
+        children.push(childEid);
+        if (collectPairs) pairs.push(parentEid, childEid);
       }
-      // -----------------------------------------------------
+    }
+    return {parents, children};
+  };
+
+  // Child-driven edges: a symmetric filter gets the children as parents and the other way around. Every match is
+  // collected (with swapped entities), so the quantifier can be applied by counting the matches of each parent.
+  const swappedPairs: Entity[] = [];
+  const matchCounts = new Map<Entity, number>();
+
+  const filterChildDriven = (
+    edge: EvalEdge,
+    world: World,
+    bounds: Quantifier,
+    collectPairs: boolean,
+    stats?: QueryFilterStats
+  ) => {
+    const {filter, parentNode, childNode, pairs} = edge;
+
+    swappedPairs.length = 0;
+    matchCounts.clear();
+    filter(childNode.updateList, parentNode.updateList, world, false, everyCount, swappedPairs, stats, params);
+    for (let i = 1; i < swappedPairs.length; i += 2) {
+      matchCounts.set(swappedPairs[i], (matchCounts.get(swappedPairs[i]) ?? 0) + 1);
+    }
+
+    lookupSet.clear();
+    const parents: Entity[] = [];
+    for (const parentEid of parentNode.updateList) {
+      const matches = matchCounts.get(parentEid) ?? 0;
+      if (matches < bounds.min || matches > bounds.max) continue;
+      parents.push(parentEid);
+      lookupSet.add(parentEid);
+    }
+
+    const children: Entity[] = [];
+    for (let i = 0; i < swappedPairs.length; i += 2) {
+      const childEid = swappedPairs[i];
+      const parentEid = swappedPairs[i + 1];
+      if (!lookupSet.has(parentEid)) continue;
+      children.push(childEid);
+      if (collectPairs) pairs.push(parentEid, childEid);
+    }
+
+    // don't hold on to entities between executions
+    swappedPairs.length = 0;
+    matchCounts.clear();
+    lookupSet.clear();
+    return {parents, children};
+  };
+
+  // Edges of `ExcludeSelf(...)` nodes: the filter collects every match (the lower bound can only be checked with
+  // one match less, the one a parent may have with itself), then the quantifier decides on the matches of each
+  // parent that are left. `All` asks for a match with every other child.
+  const allPairs: Entity[] = [];
+  const selfExcludingBounds: Quantifier = {min: 0, max: Infinity};
+
+  const filterExcludingSelf = (
+    edge: EvalEdge,
+    world: World,
+    bounds: Quantifier,
+    collectPairs: boolean,
+    stats?: QueryFilterStats
+  ) => {
+    const {filter, parentNode, childNode, quantifier, pairs} = edge;
+    const childList = childNode.updateList;
+
+    truncate(allPairs, 0);
+    matchCounts.clear();
+    selfExcludingBounds.min = Math.max(0, bounds.min - 1);
+    filter(parentNode.updateList, childList, world, false, selfExcludingBounds, allPairs, stats, params);
+    for (let i = 0; i < allPairs.length; i += 2) {
+      if (allPairs[i] === allPairs[i + 1]) continue;
+      matchCounts.set(allPairs[i], (matchCounts.get(allPairs[i]) ?? 0) + 1);
+    }
+
+    lookupSet.clear();
+    const parents: Entity[] = [];
+    for (const parentEid of parentNode.updateList) {
+      const matches = matchCounts.get(parentEid) ?? 0;
+      const others = quantifier.all ? childList.length - (childList.includes(parentEid) ? 1 : 0) : 0;
+      if (quantifier.all ? matches !== others : matches < bounds.min || matches > bounds.max) continue;
+      parents.push(parentEid);
+      lookupSet.add(parentEid);
+    }
 
-      // filter down the results - the filter enforces the relationship between the two sets of entities
-      const {parents, children} = filter(
+    const children: Entity[] = [];
+    for (let i = 0; i < allPairs.length; i += 2) {
+      const parentEid = allPairs[i];
+      const childEid = allPairs[i + 1];
+      if (parentEid === childEid || !lookupSet.has(parentEid)) continue;
+      children.push(childEid);
+      if (collectPairs) pairs.push(parentEid, childEid);
+    }
+
+    // don't hold on to entities between executions
+    truncate(allPairs, 0);
+    matchCounts.clear();
+    lookupSet.clear();
+    return {parents, children};
+  };
+
+  // Limited executions: the last edge on the root level decides which roots make it into the result, so it
+  // gets the parents in chunks (doubling in size) and stops as soon as enough of them passed.
+  const filterLimited = (
+    edge: EvalEdge,
+    world: World,
+    bounds: Quantifier,
+    collectPairs: boolean,
+    limit: number,
+    stats?: QueryFilterStats
+  ) => {
+    const {filter, parentNode, childNode, pairs} = edge;
+    const parentList = parentNode.updateList;
+    const parents: Entity[] = [];
+    const children: Entity[] = [];
+
+    let start = 0;
+    for (let size = limit; start < parentList.length && parents.length < limit; start += size, size *= 2) {
+      const result = filter(
+        parentList.slice(start, start + size),
+        childNode.updateList,
+        world,
+        skipsChildren(edge, collectPairs),
+        bounds,
+        collectPairs ? pairs : undefined,
+        stats,
+        params
+      );
+      for (let i = 0; i < result.parents.length; i++) parents.push(result.parents[i]);
+      for (let i = 0; i < result.children.length; i++) children.push(result.children[i]);
+    }
+    if (start < parentList.length) limitCutShort = true;
+    return {parents, children};
+  };
+
+  // Leaf children are only needed to tell whether a parent has a match, the filter can stop at the first one.
+  // The child list stays as it is then, the entities it returned are not all there are.
+  const skipsChildren = (edge: EvalEdge, collectPairs: boolean) => {
+    return !collectPairs && edge.childNode.children.length === 0 && !edge.childNode.shared;
+  };
+
+  // Runs the filter of an edge on the current lists of its nodes
+  const runEdge = (
+    edge: EvalEdge,
+    step: number,
+    world: World,
+    collectPairs: boolean,
+    tracker?: TrackerState,
+    profile?: ExecutionProfile,
+    limit = Infinity
+  ) => {
+    const {filter, parentNode, childNode, quantifier, pairs, out} = edge;
+    const stats = profile?.stats;
+    const start = profile ? performance.now() : 0;
+    if (stats) stats.conditionCalls = 0;
+    const parentsIn = parentNode.updateList.length;
+    const childrenIn = childNode.updateList.length;
+
+    // `All` can only be resolved now that we know how many children there are
+    let bounds = quantifier;
+    if (quantifier.all) {
+      resolvedQuantifier.min = resolvedQuantifier.max = childNode.updateList.length;
+      bounds = resolvedQuantifier;
+    }
+    // Distinct executions: matches that turn out to be bound elsewhere in a binding don't count, so the number of
+    // matches can only drop - only the lower bound lets the filter drop a parent yet
+    if (distinct) {
+      relaxedQuantifier.min = quantifier.all ? 0 : quantifier.min;
+      bounds = relaxedQuantifier;
+    }
+
+    // filter down the results - the filter enforces the relationship between the two sets of entities.
+    // When collecting pairs we need every match, so there is no breaking out early.
+    pairs.length = 0;
+    truncate(out.parents, 0);
+    truncate(out.children, 0);
+    const result = edge.recursion
+      ? filterRecursive(edge, world, collectPairs, stats)
+      : tracker
+      ? filterIncremental(edge, world, tracker, collectPairs)
+      : edge.excludeSelf && !distinct
+      ? filterExcludingSelf(edge, world, bounds, collectPairs, stats)
+      : limit < Infinity
+      ? filterLimited(edge, world, bounds, collectPairs, limit, stats)
+      : edge.childDriven
+      ? filterChildDriven(edge, world, bounds, collectPairs, stats)
+      : filter(
         parentNode.updateList,
         childNode.updateList,
         world,
-        childNode.children.length === 0
+        skipsChildren(edge, collectPairs),
+        bounds,
+        collectPairs ? pairs : undefined,
+        stats,
+        params,
+        out
       );
 
-      // if any of the two are empty we already know that the final intersection
-      // of all entities will be empty and can return early.
-      if (parents.length === 0 || children.length === 0) {
-        return emptyResultsArr;
-      }
+    if (profile) {
+      // runs of the narrowing pass add up with the first one
+      const previous = profile.runs.get(edge);
+      profile.runs.set(edge, {
+        step: previous?.step ?? step,
+        parentsIn: previous?.parentsIn ?? parentsIn,
+        childrenIn: previous?.childrenIn ?? childrenIn,
+        parentsOut: result.parents.length,
+        childrenOut: result.children.length,
+        conditionCalls: (previous?.conditionCalls ?? 0) + stats!.conditionCalls,
+        time: (previous?.time ?? 0) + performance.now() - start,
+      });
+    }
+    return result;
+  };
 
-      // from now on we work with the updated lists, this way we
-      // don't compare any entities that have already been discarded
-      parentNode.updateList = parents;
-      childNode.updateList = children;
+  // From now on we work with the updated lists, this way we don't compare any entities that have already
+  // been discarded. The child list keeps the children that got matched by a parent that passed, unless
+  // the edge lets parents pass without children (e.g. a negation), which doesn't constrain the children.
+  const applyEdge = (edge: EvalEdge, parents: Entity[], children: Entity[], collectPairs: boolean) => {
+    const {parentNode, childNode} = edge;
+
+    // Branches of AnyOf(...) don't narrow each other down, they only collect the entities that passed
+    if (parentNode.anyOf) {
+      for (let j = 0; j < parents.length; j++) parentNode.anyOf.add(parents[j]);
+    } else {
+      copyInto(parentNode.updateList, parents);
     }
 
-    return rootNode.updateList;
+    // children come back once per parent that matched them
+    if (!edge.allowsEmptyChildren && !skipsChildren(edge, collectPairs)) keepOnly(childNode.updateList, children);
+
+    edge.seenParents = parentNode.updateList.length;
+    edge.seenChildren = childNode.updateList.length;
   };
 
-  // ===================================================================================================================
-}
+  // Narrows a list down in place to the entities in `keep`. Entities of different worlds (see `From`) can share
+  // the slot of an index - if two of them are in `keep`, a Set decides.
+  const keepOnly = (list: Entity[], keep: readonly Entity[]) => {
+    markStamp++;
+    let collided = false;
+    for (let j = 0; j < keep.length; j++) {
+      const eid = keep[j];
+      const index = eid & ENTITY_ID_MASK;
+      while (markStamps.length <= index) {
+        markStamps.push(0);
+        markedEntities.push(0);
+      }
+      if (markStamps[index] === markStamp && markedEntities[index] !== eid) collided = true;
+      markStamps[index] = markStamp;
+      markedEntities[index] = eid;
+    }
+    if (collided) for (let j = 0; j < keep.length; j++) lookupSet.add(keep[j]);
+
+    let kept = 0;
+    for (let i = 0; i < list.length; i++) {
+      const eid = list[i];
+      const index = eid & ENTITY_ID_MASK;
+      if (collided ? lookupSet.has(eid) : markStamps[index] === markStamp && markedEntities[index] === eid) {
+        list[kept++] = eid;
+      }
+    }
+    truncate(list, kept);
+    if (collided) lookupSet.clear();
+  };
 
+  // An edge has to run again if one of its lists shrank since it ran: fewer children can mean a parent
+  // doesn't pass anymore, fewer parents that a child isn't matched anymore. The lists of AnyOf(...) nodes
+  // are put together once, while the branches run.
+  const needsRerun = (edge: EvalEdge, collectPairs: boolean) => {
+    const {parentNode, childNode} = edge;
+    if (parentNode.anyOf || childNode.anyOf) return false;
+    if (childNode.updateList.length < edge.seenChildren) return true;
+    return parentNode.updateList.length < edge.seenParents
+      && !edge.allowsEmptyChildren
+      && !skipsChildren(edge, collectPairs);
+  };
 
-/**
- * factory function for tree query filters to be used with `createTreeQuery`.
- * Pass a condition that works out whether to include an entity in the parent query by
- * comparing it with entities in the child query.
- * <pre>
- * const InPickupRange = createTreeQueryFilter((eid1, eid2, _world) => {
- *   // get both positions and calc distance against a threshold (radii here)
- *   const myPos = eid1.get(Position)!;
- *   const otherPos = eid2.get(Position)!;
- *
- *   const myRadius = eid1.get(Radius)!.value;
- *   const otherRadius = eid2.get(Radius)!.value;
- *
- *   // check if in range considering center distances and both radii
- *   const dist = Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
- *   return (dist - otherRadius) <= myRadius;
- * });
- *  </pre>
- * @param condition
- */
-export function createTreeQueryFilter<W extends World = World>(
-  condition: (eid: Entity, nestedEid: Entity, world: W) => boolean
-) {
-  return function (...traits: Array<Trait | QueryModifier | QueryFilterNode>): {
-    components: Trait[];
-    queryFilter: QueryFilter;
-    childQueries: QueryFilterNode[];
-    isFilter: true;
-  } {
-    // --------------------------------------------------------------------------------------
-    // we filter out further modifier and return them separate from the components
-    const _components: Trait[] = [];
-    const childQueries: QueryFilterNode[] = [];
+  // if any of the two lists of an edge are empty we already know that the final intersection
+  // of all entities will be empty and can return early. Below a negation (or any edge that allows
+  // empty children) this only means that child list is empty, so we keep going and let that edge decide.
+  // Tracked queries never early out: every edge has to see every update to keep its state in sync.
+  // Emptiness still propagates up to the root (or to the next edge that allows empty children).
+  const emptiesQuery = (
+    edge: EvalEdge,
+    parents: Entity[],
+    children: Entity[],
+    tracker?: TrackerState,
+    profile?: ExecutionProfile
+  ) => {
+    if (parents.length > 0 && (edge.allowsEmptyChildren || children.length > 0)) return false;
+    if (!edge.canEarlyOut || tracker) return false;
+    if (profile) profile.emptiedBy = edge;
+    params = undefined;
+    return true;
+  };
 
-    if (!Array.isArray(traits)) {
-      throw `createTreeQueryFilter: traits need to be passed as an array.`;
+  // A limited execution can lose roots after the last edge on the root level stopped: the narrowing pass drops
+  // the ones that don't pass anymore once a Shared(...) node shrank. The parents the edge didn't get to could have
+  // taken their place, so we run again without the limit then.
+  const execute = (
+    world: World,
+    runParams: Params | undefined,
+    collectPairs: boolean,
+    tracker?: TrackerState,
+    profile?: ExecutionProfile,
+    limit = Infinity
+  ): readonly Entity[] => {
+    const result = executeOnce(world, runParams, collectPairs, tracker, profile, limit);
+    if (!limitCutShort || result.length >= limit) return result;
+    const complete = executeOnce(world, runParams, collectPairs, tracker, profile, Infinity);
+    return complete.length > limit ? complete.slice(0, limit) : complete;
+  };
+
+  const executeOnce = (
+    world: World,
+    runParams: Params | undefined,
+    collectPairs: boolean,
+    tracker: TrackerState | undefined,
+    profile: ExecutionProfile | undefined,
+    limit: number
+  ): readonly Entity[] => {
+    limitCutShort = false;
+    if (limit === 0) return emptyResultsArr;
+    params = runParams;
+    plan(world);
+    // clearing an empty Set still allocates
+    for (const node of nodesFlattened) if (node.anyOf && node.anyOf.size > 0) node.anyOf.clear();
+    if (profile) for (const node of nodesFlattened) profile.queried.set(node, node.updateList.length);
+
+    for (let i = 0, N = edgeOrder.length; i < N; i++) {
+      const edge = edgeOrder[i];
+      const {childNode} = edge;
+
+      // all branches of AnyOf(...) ran, the entities that passed any of them are what's left of the node
+      if (childNode.anyOf) {
+        const passed = childNode.anyOf;
+        const list = childNode.updateList;
+        let kept = 0;
+        for (let j = 0; j < list.length; j++) if (passed.has(list[j])) list[kept++] = list[j];
+        truncate(list, kept);
+        passed.clear();
+      }
+
+      // with a limit, the last edge on the root level can stop once enough roots passed
+      const edgeLimit = i === N - 1 && edge.parentNode === rootNode ? limit : Infinity;
+      const collects = collectPairs || aggregatedEdges.includes(edge);
+      const {parents, children} = runEdge(edge, i, world, collects, tracker, profile, edgeLimit);
+      if (emptiesQuery(edge, parents, children, tracker, profile)) return emptyResultsArr;
+      applyEdge(edge, parents, children, collects);
     }
 
-    for (const trait of traits) {
-      if (Array.isArray(trait)) {
-        throw `createTreeQueryFilter: Syntax error creating while creating a Tree Query. Component Arrays can only contain Components or Filter Functions.`;
+    // Narrowing pass: every edge ran once, children before parents. In a tree, that's enough for the root, but
+    // siblings narrowed their parent after the others ran, and with Shared(...) sub-queries, a node can be
+    // narrowed by another parent after an edge to it ran. So we go up and down the edges, running every edge again
+    // whose lists shrank, until nothing changes anymore - then every entity that's left has a match for every edge
+    // it's a part of. Lists only ever shrink, so this ends.
+    for (let rerun = true; rerun;) {
+      rerun = false;
+      for (let i = 0, N = edgeOrder.length; i < 2 * N; i++) {
+        const edge = edgeOrder[i < N ? i : 2 * N - 1 - i];
+        const collects = collectPairs || aggregatedEdges.includes(edge);
+        if (!needsRerun(edge, collects)) continue;
+        const {parents, children} = runEdge(edge, i % N, world, collects, tracker, profile);
+        if (emptiesQuery(edge, parents, children, tracker, profile)) return emptyResultsArr;
+        applyEdge(edge, parents, children, collects);
+        rerun = true;
       }
-      if ((trait as unknown as QueryFilterNode).isFilter) {
-        childQueries.push(trait as unknown as QueryFilterNode);
-      } else {
-        _components.push(trait as Trait);
+    }
+
+    // don't hold on to the params between executions
+    params = undefined;
+    return rootNode.updateList.length > limit ? rootNode.updateList.slice(0, limit) : rootNode.updateList;
+  };
+
+  const checkedLimit = (options?: TreeQueryOptions) => {
+    const limit = options?.limit ?? Infinity;
+    if (!(limit >= 0) || (limit !== Infinity && !Number.isInteger(limit))) {
+      throw new Error(`createTreeQuery: invalid limit ${limit}, expected a non-negative integer.`);
+    }
+    return limit;
+  };
+
+  // Bindings are put together top-down from the pairs collected during execution. Every child listed in the
+  // pairs of an edge has already passed all of its own edges (they run first), so its pairs are complete.
+  const matchesByEdge = new Map<EvalEdge, Map<Entity, Entity[]>>();
+
+  const collectMatches = () => {
+    matchesByEdge.clear();
+    for (const edge of edgesFlattened) {
+      const byParent = new Map<Entity, Entity[]>();
+      for (let i = 0; i < edge.pairs.length; i += 2) {
+        const parentEid = edge.pairs[i];
+        let children = byParent.get(parentEid);
+        if (!children) byParent.set(parentEid, children = []);
+        children.push(edge.pairs[i + 1]);
       }
+      matchesByEdge.set(edge, byParent);
     }
-    // --------------------------------------------------------------------------------------
+  };
 
-    const queryFilter = (
-      parents: Entity[],
-      children: Entity[],
-      world: W,
-      skipCollectingChildren = false
-    ) => {
-      const parents2: number[] = [];
-      const children2: number[] = [];
-
-      for (let i = 0; i < parents.length; i++) {
-        const parentEid = parents[i];
-        let someChildMatches = false;
-
-        // we need to find one child that matches the filter condition
-        for (let j = 0, N = children.length; j < N; j++) {
-          const childEid = children[j];
-          // The matching function that gets passed by the user when creating new filter functions
-          // ~~~
-          const match = condition(parentEid, childEid, world);
-          // ~~~
-          someChildMatches = someChildMatches || match;
-          if (match) {
-            children2.push(childEid);
-            // The skipCollectingChildren parameter determines if we should keep
-            // collecting children or if it's better to break out early. If there
-            // is not going to be another child query of this children array, then
-            // we don't need to continue collecting.
-            if (skipCollectingChildren) break;
-          }
-        }
+  // don't hold on to entity lists between calls
+  const releaseMatches = () => {
+    matchesByEdge.clear();
+    for (const edge of edgesFlattened) edge.pairs.length = 0;
+  };
+
+  // Distinct executions: the filters ran with relaxed bounds (see `runEdge`), now a binding is searched for every
+  // root, top-down and with backtracking. Every filter node binds entities that aren't bound anywhere else in the
+  // binding yet - on its path, under a sibling or under a cousin - and passes the same search for its own edges.
+  // Edges without an upper bound pick the matches their lower bound needs, trying every choice the rest of the
+  // binding could depend on, and then take the matches that are left where the rest still passes. Upper bounds and
+  // `All` count every match that could be bound when the edge is reached, so they bind all of them.
+  const boundEntities = new Set<Entity>();
+  // the edge, parent and child of every match the search bound so far, the parents and children interleaved
+  const boundEdges: EvalEdge[] = [];
+  const boundPairs: Entity[] = [];
+  const bindingByEdge = new Map<EvalEdge, Map<Entity, Entity[]>>();
+
+  type Continuation = () => boolean;
+
+  const searchNode = (node: EvalNode, entity: Entity, next: Continuation): boolean => {
+    const {children} = node;
+    // the branches of AnyOf(...) nodes are alternatives, one of them has to pass
+    if (node.anyOf) {
+      for (const {edge} of children) if (searchEdge(edge, entity, next)) return true;
+      return false;
+    }
+    const searchFrom = (k: number): boolean =>
+      k === children.length ? next() : searchEdge(children[k].edge, entity, () => searchFrom(k + 1));
+    return searchFrom(0);
+  };
 
-        if (someChildMatches) {
-          parents2.push(parentEid);
+  const searchChild = (edge: EvalEdge, parent: Entity, child: Entity, next: Continuation) => {
+    // the nodes of AnyOf(...) stand for the entity itself, they don't bind another one
+    if (!edge.sameEntity) boundEntities.add(child);
+    boundEdges.push(edge);
+    boundPairs.push(parent, child);
+    const passes = searchNode(edge.childNode, child, next);
+    boundPairs.length -= 2;
+    boundEdges.pop();
+    if (!edge.sameEntity) boundEntities.delete(child);
+    return passes;
+  };
+
+  const searchEdge = (edge: EvalEdge, parent: Entity, next: Continuation): boolean => {
+    const {childNode, quantifier} = edge;
+    const matches = matchesByEdge.get(edge)!.get(parent) ?? emptyResultsArr;
+    const isFree = (child: Entity) => edge.sameEntity || !boundEntities.has(child);
+
+    if (quantifier.all || quantifier.max < Infinity) {
+      const bindAll = (i: number, count: number): boolean => {
+        if (i === matches.length) {
+          // `All`: every child that isn't bound elsewhere is bound by this edge
+          if (quantifier.all) return childNode.updateList.every(child => boundEntities.has(child)) && next();
+          return count >= quantifier.min && next();
         }
-      }
-      return {parents: parents2, children: children2};
+        const child = matches[i];
+        if (!isFree(child)) return bindAll(i + 1, count);
+        let bindable = false;
+        const passes = searchChild(edge, parent, child, () => {
+          bindable = true;
+          return count < quantifier.max && bindAll(i + 1, count + 1);
+        });
+        return passes || (!bindable && bindAll(i + 1, count));
+      };
+      return bindAll(0, 0);
+    }
+
+    // the matches beyond the lower bound, every one that can be bound is - a single attempt for each of them
+    let addedAny = false;
+    const bindRest = (i: number): boolean => {
+      if (i === matches.length) return next();
+      const child = matches[i];
+      if (!isFree(child)) return bindRest(i + 1);
+      let tried = false;
+      const passes = searchChild(edge, parent, child, () => {
+        if (tried) return false;
+        tried = addedAny = true;
+        return bindRest(i + 1);
+      });
+      return passes || (!tried && bindRest(i + 1));
+    };
+    const bindMin = (i: number, count: number): boolean => {
+      // without the rest, if binding them left too little for the filters after this one
+      if (count >= quantifier.min) return bindRest(i) || (addedAny && next());
+      if (i === matches.length) return false;
+      const child = matches[i];
+      if (!isFree(child)) return bindMin(i + 1, count);
+      return searchChild(edge, parent, child, () => bindMin(i + 1, count + 1)) || bindMin(i + 1, count);
     };
+    return bindMin(0, 0);
+  };
 
-    // @ts-ignore: forgot what TS was complaining about here
-    return {components: _components, queryFilter, childQueries, isFilter: true};
+  const searchDistinct = (root: Entity, found: Continuation) => {
+    boundEntities.add(root);
+    const passes = searchNode(rootNode, root, found);
+    boundEntities.delete(root);
+    return passes;
   };
+
+  // the matches stay collected for the bindings, the callers release them. With `bindings`, the binding found for
+  // every root is added to it
+  const executeDistinct = (world: World, runParams: Params | undefined, limit: number, bindings?: TreeQueryMatch[]) => {
+    distinct = true;
+    let roots: readonly Entity[];
+    try {
+      roots = execute(world, runParams, true);
+    } finally {
+      distinct = false;
+    }
+    collectMatches();
+    const result: Entity[] = [];
+    for (let i = 0; i < roots.length && result.length < limit; i++) {
+      const root = roots[i];
+      const found = () => {
+        if (bindings) bindings.push(bindFound(root));
+        return true;
+      };
+      if (searchDistinct(root, found)) result.push(root);
+    }
+    return result;
+  };
+
+  const distinctResult = (world: World, params: Params | undefined, limit: number) => {
+    const result = executeDistinct(world, params, limit);
+    releaseMatches();
+    return result;
+  };
+
+  // the binding of the current state of the search
+  const bindFound = (root: Entity) => {
+    bindingByEdge.clear();
+    for (let i = 0; i < boundEdges.length; i++) {
+      let byParent = bindingByEdge.get(boundEdges[i]);
+      if (!byParent) bindingByEdge.set(boundEdges[i], byParent = new Map());
+      let children = byParent.get(boundPairs[2 * i]);
+      if (!children) byParent.set(boundPairs[2 * i], children = []);
+      children.push(boundPairs[2 * i + 1]);
+    }
+    const binding = bindEntity(rootNode, root, bindingByEdge);
+    bindingByEdge.clear();
+    return binding;
+  };
+
+  const bindEntity = (node: EvalNode, entity: Entity, byEdge: Map<EvalEdge, Map<Entity, Entity[]>>): TreeQueryMatch => {
+    const matches: TreeQueryMatch[][] = [];
+    for (const {edge, node: childNode} of node.children) {
+      const children = byEdge.get(edge)?.get(entity) ?? emptyResultsArr;
+      matches.push(children.map(child => bindEntity(childNode, child, byEdge)));
+    }
+    return {entity, matches};
+  };
+
+  const treeQuery = (world: World, params?: Params, options?: TreeQueryOptions): readonly Entity[] => {
+    const limit = checkedLimit(options);
+    if (options?.distinct) return distinctResult(world, params, limit);
+    // a copy, the lists of the nodes get re-used by the next execution
+    return [...execute(world, params, false, undefined, undefined, limit)];
+  };
+
+  treeQuery.into = (world: World, out: Entity[], params?: Params, options?: TreeQueryOptions): Entity[] => {
+    const limit = checkedLimit(options);
+    if (options?.distinct) return copyInto(out, distinctResult(world, params, limit));
+    return copyInto(out, execute(world, params, false, undefined, undefined, limit));
+  };
+
+  treeQuery.bindings = (world: World, params?: Params, options?: TreeQueryOptions): TreeQueryMatch[] => {
+    const limit = checkedLimit(options);
+    if (options?.distinct) {
+      const bindings: TreeQueryMatch[] = [];
+      executeDistinct(world, params, limit, bindings);
+      releaseMatches();
+      return bindings;
+    }
+    const roots = execute(world, params, true, undefined, undefined, limit);
+    collectMatches();
+    const result = roots.map(root => bindEntity(rootNode, root, matchesByEdge));
+    releaseMatches();
+    return result;
+  };
+
+  treeQuery.queryFirst = (world: World, params?: Params): Entity | undefined => {
+    return execute(world, params, false, undefined, undefined, 1)[0];
+  };
+
+  // Only the aggregated edge collects its pairs, the others still stop at the first match where they can.
+  // The pairs are the ones of the last run of the edge, it runs again whenever one of its lists shrank.
+  // The lists further down can hold entities no root matched: the ones below edges that let parents pass without
+  // children (AtLeast(0, ...), All) aren't narrowed, and a limit cuts the roots short after the query ran. For
+  // edges below the root level, the edges on the path to it collect their pairs as well, and only the parents
+  // these pairs lead to from the returned roots are kept.
+  treeQuery.aggregate = <Value>(
+    world: World,
+    path: number[],
+    aggregation: TreeQueryAggregation<Value>,
+    params?: Params,
+    options?: TreeQueryAggregateOptions
+  ): Map<Entity, Value> => {
+    const edgeAt = (length: number) => edgesFlattened.find(({path: edgePath}) =>
+      edgePath.length === length && edgePath.every((index, i) => index === path[i])
+    );
+    const edge = edgeAt(path.length);
+    if (!edge) {
+      throw new Error(`createTreeQuery: there is no filter node at the path [${path.join(", ")}] to aggregate.`);
+    }
+    if (options?.distinct) {
+      throw new Error(`createTreeQuery: aggregations don't support the distinct option.`);
+    }
+    const limit = checkedLimit(options);
+
+    const nested = edge.parentNode !== rootNode;
+    const edges = nested ? path.map((_, i) => edgeAt(i + 1)!) : [edge];
+    let roots: readonly Entity[];
+    aggregatedEdges = edges;
+    try {
+      roots = execute(world, params, false, undefined, undefined, limit);
+    } finally {
+      aggregatedEdges = [];
+    }
+
+    const values = new Map<Entity, Value>();
+    if (roots.length > 0) {
+      let parents = edge.parentNode === rootNode ? roots : edge.parentNode.updateList;
+      if (nested) {
+        let reached = new Set(roots);
+        for (let k = 0; k < edges.length - 1; k++) {
+          const next = new Set<Entity>();
+          const {pairs} = edges[k];
+          for (let i = 0; i < pairs.length; i += 2) if (reached.has(pairs[i])) next.add(pairs[i + 1]);
+          reached = next;
+        }
+        parents = parents.filter(eid => reached.has(eid));
+      }
+      for (let i = 0; i < parents.length; i++) values.set(parents[i], aggregation.initial);
+      const childWorld = edge.childNode.world ?? world;
+      const {pairs} = edge;
+      for (let i = 0; i < pairs.length; i += 2) {
+        const parentEid = pairs[i];
+        if (!values.has(parentEid)) continue;
+        values.set(parentEid, aggregation.reduce(values.get(parentEid)!, pairs[i + 1], parentEid, childWorld));
+      }
+    }
+    // don't hold on to the pairs between calls
+    for (const {pairs} of edges) pairs.length = 0;
+
+    if (options?.into) {
+      const {trait, key} = options.into;
+      for (const [entity, value] of values) {
+        if (entity.has(trait)) entity.set(trait, {[key]: value});
+        else entity.add(trait({[key]: value}));
+      }
+    }
+    return values;
+  };
+
+  treeQuery.orderBy = (score: (entity: Entity, world: World, params: Params) => number): OrderedTreeQuery<Params> => {
+    // sorts entities (or anything with an entity) by their score, scoring each of them once
+    const sortByScore = <T>(items: readonly T[], entityOf: (item: T) => Entity, world: World, params?: Params) => {
+      const scored = items.map(item => ({item, score: score(entityOf(item), world, params!)}));
+      scored.sort((a, b) => a.score - b.score);
+      return scored.map(({item}) => item);
+    };
+
+    const orderedQuery = (world: World, params?: Params, options?: TreeQueryOptions) => {
+      const limit = checkedLimit(options);
+      const result = options?.distinct ? distinctResult(world, params, Infinity) : execute(world, params, false);
+      return sortByScore(result, entity => entity, world, params).slice(0, limit);
+    };
+
+    orderedQuery.bindings = (world: World, params?: Params, options?: TreeQueryOptions): TreeQueryMatch[] => {
+      const limit = checkedLimit(options);
+      const bindings = treeQuery.bindings(world, params, {distinct: options?.distinct});
+      return sortByScore(bindings, match => match.entity, world, params).slice(0, limit);
+    };
+
+    orderedQuery.queryFirst = (world: World, params?: Params): Entity | undefined => {
+      const result = execute(world, params, false);
+      let first: Entity | undefined = undefined;
+      let lowest = Infinity;
+      for (let i = 0; i < result.length; i++) {
+        const value = score(result[i], world, params!);
+        if (first === undefined || value < lowest) {
+          first = result[i];
+          lowest = value;
+        }
+      }
+      return first;
+    };
+
+    return orderedQuery;
+  };
+
+  treeQuery.track = (world: World): TrackedTreeQuery<Params> => {
+    const tracker: TrackerState = {edgeStates: new Map(), dirty: new Set()};
+    // shallow copy of the params of the last update
+    let lastParams: Params | undefined = undefined;
+    // if every filter declared its dependencies, nothing can change without one of our subscriptions firing
+    const canSkipUpdates = edgesFlattened.every(edge => edge.dependencies !== null);
+    let changed = true;
+    let result: readonly Entity[] = [];
+    let added: Entity[] = [];
+    let removed: Entity[] = [];
+
+    const onStructureChange = () => {
+      changed = true;
+    };
+    const onDependencyChange = (entity: Entity) => {
+      changed = true;
+      tracker.dirty.add(entity);
+    };
+
+    const unsubscribers: Array<() => void> = [];
+    for (const observed of new Set([world, ...sourceWorlds])) {
+      for (const trait of structuralTraits) {
+        unsubscribers.push(observed.onAdd(trait, onStructureChange), observed.onRemove(trait, onStructureChange));
+      }
+      for (const trait of whereTraits) {
+        unsubscribers.push(observed.onChange(trait, onStructureChange));
+      }
+      for (const trait of dependencyTraits) {
+        unsubscribers.push(
+          observed.onAdd(trait, onDependencyChange),
+          observed.onRemove(trait, onDependencyChange),
+          observed.onChange(trait, onDependencyChange)
+        );
+      }
+    }
+
+    const update = (params?: Params) => {
+      // different params can change the result of any pair
+      if (!shallowEqual(params, lastParams)) {
+        tracker.edgeStates.clear();
+        changed = true;
+        lastParams = isObject(params) ? {...params} : params;
+      }
+
+      if (!changed && canSkipUpdates) {
+        added = [];
+        removed = [];
+        return result;
+      }
+
+      // copy, the root list gets re-used by the next execution
+      const next = [...execute(world, params, false, tracker)];
+      const previousSet = new Set(result);
+      const nextSet = new Set(next);
+      added = next.filter(eid => !previousSet.has(eid));
+      removed = result.filter(eid => !nextSet.has(eid));
+      result = next;
+
+      tracker.dirty.clear();
+      changed = false;
+      return result;
+    };
+
+    return {
+      update,
+      get result() {
+        return result;
+      },
+      get added() {
+        return added;
+      },
+      get removed() {
+        return removed;
+      },
+      dispose() {
+        for (const unsubscribe of unsubscribers) unsubscribe();
+        unsubscribers.length = 0;
+        tracker.edgeStates.clear();
+        tracker.dirty.clear();
+        lastParams = undefined;
+      },
+    };
+  };
+
+  treeQuery.plan = (world: World): TreeQueryPlanStep[] => {
+    plan(world);
+    return edgeOrder.map(edge => ({
+      path: [...edge.path],
+      direction: edge.childDriven ? 'child-driven' : 'parent-driven',
+      parents: edge.parentNode.updateList.length,
+      children: edge.childNode.updateList.length,
+      cost: edge.estimate,
+    }));
+  };
+
+  const notRun: EdgeRun = {
+    step: -1,
+    parentsIn: 0,
+    childrenIn: 0,
+    parentsOut: 0,
+    childrenOut: 0,
+    conditionCalls: 0,
+    time: 0,
+  };
+
+  treeQuery.explain = (world: World, params?: Params): TreeQueryExplanation => {
+    const profile: ExecutionProfile = {queried: new Map(), runs: new Map(), emptiedBy: null, stats: {conditionCalls: 0}};
+    const start = performance.now();
+    const result = [...execute(world, params, false, undefined, profile)];
+    const time = performance.now() - start;
+
+    const explainNode = (node: EvalNode): TreeQueryExplainNode => ({
+      traits: [...node.components],
+      queried: profile.queried.get(node)!,
+      remaining: node.updateList.length,
+      filters: node.children.map(({edge, node: childNode}) => ({
+        path: [...edge.path],
+        quantifier: {...edge.quantifier},
+        direction: edge.childDriven ? 'child-driven' : 'parent-driven',
+        ...profile.runs.get(edge) ?? notRun,
+        node: explainNode(childNode),
+      })),
+    });
+
+    // without an early out, the result got emptied by the first filter on the root level that let no parent pass
+    let emptiedBy = profile.emptiedBy;
+    if (!emptiedBy && result.length === 0) {
+      emptiedBy = edgeOrder.find(edge => edge.parentNode === rootNode && profile.runs.get(edge)!.parentsOut === 0) ?? null;
+    }
+
+    return {result, root: explainNode(rootNode), emptiedBy: emptiedBy && [...emptiedBy.path], time};
+  };
+
+  return treeQuery;
+
+  // ===================================================================================================================
+}
+
+
+export type TreeQueryFilterOptions = {
+  dependencies?: Trait[];
+  requires?: Trait[] | { parent?: Trait[]; child?: Trait[] };
+  hints?: PlannerHints;
+};
+
+// Adds the traits a filter requires to the components of one of its nodes (unless they're already there).
+function addRequiredTraits(components: Trait[], required: Trait[], side: "parent" | "child") {
+  for (let i = 0; i < required.length; i++) {
+    const trait = required[i];
+    if (excludes(components, trait)) {
+      throw new Error(
+        `createTreeQuery: a filter requires a trait on its ${side} side (requires.${side}[${i}]), ` +
+        `but the ${side} query excludes that trait with Not(...).`
+      );
+    }
+    if (!components.includes(trait)) components.push(trait);
+  }
+}
+
+// A `Where(...)` clause on a level: its trait becomes a component of the level as well
+function addWhereClause(components: Trait[], where: WhereClause[], clause: WhereClause) {
+  if (!components.includes(clause.trait)) components.push(clause.trait);
+  where.push(clause);
+}
+
+// true if a Not(...) modifier among the components excludes the trait
+function excludes(components: Trait[], trait: Trait) {
+  return components.some(component => {
+    const modifier = component as unknown as { type?: string; traits?: Trait[] };
+    return typeof component !== "function" && modifier.type === "not" && !!modifier.traits?.includes(trait);
+  });
+}
+
+function withRequiredTraits(via: Array<Trait | QueryModifier>, requires: QueryFilterNode["requires"]) {
+  const components = [...via] as Trait[];
+  if (requires) {
+    addRequiredTraits(components, requires.parent, "parent");
+    addRequiredTraits(components, requires.child, "child");
+  }
+  return components;
+}
+
+// the quantifier of filter nodes without one: at least one matching child
+export const existentialQuantifier: Quantifier = {min: 1, max: Infinity};
+
+// same as Koota's (internal) getEntityId: the index of the entity in the trait stores
+export const ENTITY_ID_MASK = (1 << 20) - 1;
+
+// the entities of one side are expected to live in one world, which is another one below `From(...)` nodes
+export function worldOf(entities: readonly Entity[], world: World) {
+  if (entities.length === 0) return world;
+  return universe.worlds[unpackEntity(entities[0]).worldId] ?? world;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null;
+
+// The store of a trait in a world: one array per key for schema traits (SoA), one array of instances for
+// traits with a factory (AoS)
+type TraitStore = Record<string, unknown[]> | unknown[];
+
+// What we read of Koota's internal query objects: the version counts up with every entity added or removed,
+// queries with tracking modifiers (Added, Removed, Changed) change their result by running
+type KootaQuery = { version: number; isTracking: boolean };
+
+// ... and of Koota's internal world state: the query objects by their hash
+type KootaWorldInternals = { queriesHashMap: Map<string, KootaQuery> };
+
+// The internal query object of a query hash in a world - undefined if it hasn't run there yet, then the caller
+// has to run the query
+function kootaQueryOf(world: World, hash: QueryHash<any>): KootaQuery | undefined {
+  const internals: KootaWorldInternals = world[$internal];
+  return internals.queriesHashMap.get(hash);
+}
+
+// Shrinks a list to `length` entries. Setting the length lets V8 trim the backing store, which gets allocated
+// again once the list grows - popping keeps it, lists re-used between executions don't produce garbage that way.
+function truncate<T>(list: T[], length: number) {
+  while (list.length > length) list.pop();
+  return list;
+}
+
+// Replaces the content of `target` with the one of `source`, re-using `target` (see `truncate`)
+function copyInto<T>(target: T[], source: readonly T[]) {
+  if (target === source) return target;
+  for (let i = 0; i < source.length; i++) target[i] = source[i];
+  return truncate(target, source.length);
+}
+
+// Compares plain values, or the own properties of two objects (one level deep)
+function shallowEqual(a: unknown, b: unknown) {
+  if (Object.is(a, b)) return true;
+  if (!isObject(a) || !isObject(b)) return false;
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(key => Object.is(a[key], b[key]));
+}
+
+// default cost estimate: every parent gets compared with every child
+const pairwiseCost = (outer: number, inner: number) => outer * inner;
+
+// Adds the traits of a component list to `target`, including the ones wrapped by modifiers like Not(...)
+function collectTraits(components: Array<Trait | QueryModifier>, target: Set<Trait>) {
+  for (const component of components) {
+    if (typeof component === "function") target.add(component as Trait);
+    else for (const trait of (component as unknown as { traits: Trait[] }).traits ?? []) target.add(trait);
+  }
+}
+
+/**
+ * Lower level factory for filters that work out the matching parents and children themselves
+ * (e.g. with a spatial index) instead of comparing every (parent, child) pair with a condition.
+ * The returned filter nodes can be mixed freely with the ones of `createTreeQueryFilter`.
+ *
+ * The `queryFilter` has to return the parents that match between `quantifier.min` and `quantifier.max`
+ * children (at least one if no quantifier is passed), plus the children matched by these parents.
+ * If `pairs` is passed, every such (parent, child) match has to be pushed onto it as two entries,
+ * if `stats` is passed, filters with a condition add the number of condition calls to it.
+ * @param queryFilter
+ * @param options - `dependencies`, `requires` and `hints`, see `createTreeQueryFilter`
+ */
+export function createCustomTreeQueryFilter(queryFilter: QueryFilter, options: TreeQueryFilterOptions = {}) {
+  const {dependencies, hints = {}} = options;
+  const requires = Array.isArray(options.requires)
+    ? {parent: options.requires, child: options.requires}
+    : options.requires && {parent: options.requires.parent ?? [], child: options.requires.child ?? []};
+
+  const {symmetric = false, cost = 1} = hints;
+  if (typeof cost === "number" && !(cost >= 0)) {
+    throw new Error(`createTreeQueryFilter: the cost hint has to be a non-negative number or a function, got ${cost}.`);
+  }
+  const planner = {
+    symmetric,
+    cost: typeof cost === "number" ? (outer: number, inner: number) => outer * inner * cost : cost,
+  };
+
+  return function <const Args extends Array<Trait | QueryModifier | QueryFilterNode | SharedQuery | WhereClause>>(
+    ...traits: CheckedLevel<Args>
+  ): QueryFilterNode {
+    // --------------------------------------------------------------------------------------
+    // we filter out further modifier and return them separate from the components
+    const _components: Trait[] = [];
+    const childQueries: QueryFilterNode[] = [];
+    const where: WhereClause[] = [];
+
+    if (!Array.isArray(traits)) {
+      throw `createTreeQueryFilter: traits need to be passed as an array.`;
+    }
+
+    for (const trait of traits) {
+      if (Array.isArray(trait)) {
+        throw `createTreeQueryFilter: Syntax error creating while creating a Tree Query. Component Arrays can only contain Components or Filter Functions.`;
+      }
+      if ((trait as unknown as SharedQuery).isShared) {
+        if (traits.length > 1) {
+          throw new Error(`createTreeQueryFilter: a Shared(...) sub-query has to be the only argument of the filter node.`);
+        }
+        const shared = trait as unknown as SharedQuery;
+        const {components, childQueries, where} = shared;
+        return {components, queryFilter, childQueries, isFilter: true, dependencies, requires, hints: planner, shared, where};
+      }
+      if ((trait as unknown as QueryFilterNode).isFilter) {
+        childQueries.push(trait as unknown as QueryFilterNode);
+      } else if ((trait as unknown as WhereClause).isWhere) {
+        addWhereClause(_components, where, trait as unknown as WhereClause);
+      } else {
+        _components.push(trait as Trait);
+      }
+    }
+    // --------------------------------------------------------------------------------------
+
+    return {components: _components, queryFilter, childQueries, isFilter: true, dependencies, requires, hints: planner, where};
+  };
+}
+
+
+/**
+ * Results of filter conditions, shared by all tree queries that use the same filters, e.g. for one frame.
+ * See `createPairCache`.
+ */
+export type PairCache = {
+  // forgets all results, call it once per frame (or whenever the data the conditions read changed)
+  clear(): void;
+};
+
+// condition results by the two entities of a pair
+type PairResults = Map<Entity, Map<Entity, boolean>>;
+
+// what a pair cache holds for each filter: the results per params of the tree query
+type PairCacheState = Map<object, Array<{ params: unknown; results: PairResults }>>;
+
+const pairCacheStates = new WeakMap<PairCache, PairCacheState>();
+
+/**
+ * Creates a cache for the results of filter conditions. Filters created with the `cache` option (see
+ * `createTreeQueryFilter`) look every pair up before they call their condition, so systems that query the same
+ * relationship in a frame pay for each pair only once:
+ * <pre>
+ * const frameCache = createPairCache();
+ * const InPickupRange = createTreeQueryFilter(inPickupRange, {cache: frameCache, hints: {symmetric: true}});
+ *
+ * const spaceshipsWithPickupsInRange = createTreeQuery(IsSpaceship, InPickupRange(IsHealthPickup));
+ * const pickupsThatHaveASpaceshipInRange = createTreeQuery(IsHealthPickup, InPickupRange(IsSpaceship));
+ *
+ * function update(world: World) {
+ *   frameCache.clear();
+ *   spaceshipsWithPickupsInRange(world);
+ *   pickupsThatHaveASpaceshipInRange(world); // the pairs are known already
+ * }
+ * </pre>
+ * Results are kept per filter and per params (compared shallowly), symmetric filters (see `PlannerHints`) store
+ * a pair once for both directions. The cache doesn't know when the data the conditions read changes: results
+ * stay until `clear()` is called.
+ */
+export function createPairCache(): PairCache {
+  const state: PairCacheState = new Map();
+  const cache: PairCache = {
+    clear() {
+      state.clear();
+    },
+  };
+  pairCacheStates.set(cache, state);
+  return cache;
+}
+
+// The results of a filter for the params of the current call, see `createPairCache`
+function pairResultsOf(state: PairCacheState, filter: object, params: unknown): PairResults {
+  let entries = state.get(filter);
+  if (!entries) state.set(filter, entries = []);
+  for (const entry of entries) {
+    if (shallowEqual(entry.params, params)) return entry.results;
+  }
+  const results: PairResults = new Map();
+  entries.push({params: isObject(params) ? {...params} : params, results});
+  return results;
+}
+
+// The cached result of a pair, undefined if there is none yet. Symmetric filters store a pair once, lower entity first
+function cachedResult(results: PairResults, a: Entity, b: Entity, symmetric: boolean) {
+  return symmetric && b < a ? results.get(b)?.get(a) : results.get(a)?.get(b);
+}
+
+function cacheResult(results: PairResults, a: Entity, b: Entity, symmetric: boolean, match: boolean) {
+  const low = symmetric && b < a ? b : a;
+  const high = low === a ? b : a;
+  let row = results.get(low);
+  if (!row) results.set(low, row = new Map());
+  row.set(high, match);
+}
+
+
+export type PairwiseTreeQueryFilterOptions = TreeQueryFilterOptions & {
+  // shares the results of the condition with other queries until the cache gets cleared, see `createPairCache`
+  cache?: PairCache;
+};
+
+/**
+ * factory function for tree query filters to be used with `createTreeQuery`.
+ * Pass a condition that works out whether to include an entity in the parent query by
+ * comparing it with entities in the child query.
+ * <pre>
+ * const InPickupRange = createTreeQueryFilter((eid1, eid2, _world) => {
+ *   // get both positions and calc distance against a threshold (radii here)
+ *   const myPos = eid1.get(Position)!;
+ *   const otherPos = eid2.get(Position)!;
+ *
+ *   const myRadius = eid1.get(Radius)!.value;
+ *   const otherRadius = eid2.get(Radius)!.value;
+ *
+ *   // check if in range considering center distances and both radii
+ *   const dist = Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
+ *   return (dist - otherRadius) <= myRadius;
+ * }, {requires: [Position, Radius], dependencies: [Position, Radius]});
+ *  </pre>
+ * @param condition - also gets the params the tree query was called with, e.g. `query(world, {range: 10})`
+ * @param options
+ *  - `requires`: traits the condition expects to exist, either for both entities or separately as
+ *  `{parent: [...], child: [...]}`. `createTreeQuery` adds them to the queries the filter is used with,
+ *  so they can't be forgotten.
+ *  - `dependencies`: the traits the condition reads. Tracked queries (see `TreeQuery.track`)
+ *  only re-evaluate pairs involving entities where one of them changed - without them, every pair
+ *  gets re-evaluated on each update.
+ *  - `hints`: help the query planner pick the order of the filters and which side to loop over,
+ *  see `PlannerHints`.
+ *  - `cache`: look pairs up in a cache shared with other queries before calling the condition,
+ *  see `createPairCache`.
+ */
+export function createTreeQueryFilter<W extends World = World, Params = any>(
+  condition: (eid: Entity, nestedEid: Entity, world: W, params: Params) => boolean,
+  options: PairwiseTreeQueryFilterOptions = {}
+) {
+  const {cache, ...filterOptions} = options;
+  const cacheState = cache && pairCacheStates.get(cache);
+  if (cache && !cacheState) {
+    throw new Error(`createTreeQueryFilter: the cache has to be created with createPairCache().`);
+  }
+  const symmetric = filterOptions.hints?.symmetric ?? false;
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    world: W,
+    skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[],
+    stats?: QueryFilterStats,
+    params?: Params,
+    out?: QueryFilterResult
+  ) => {
+    const parents2: number[] = out?.parents ?? [];
+    const children2: number[] = out?.children ?? [];
+    const {min, max} = quantifier;
+    const results = cacheState && pairResultsOf(cacheState, queryFilter, params);
+    let conditionCalls = 0;
+
+    for (let i = 0; i < parents.length; i++) {
+      const parentEid = parents[i];
+      const collectedBefore = children2.length;
+      const pairsBefore = pairs?.length ?? 0;
+      let matches = 0;
+
+      // we need to find between min and max children that match the filter condition
+      for (let j = 0, N = children.length; j < N; j++) {
+        const childEid = children[j];
+        // The matching function that gets passed by the user when creating new filter functions
+        // ~~~
+        let match = results && cachedResult(results, parentEid, childEid, symmetric);
+        if (match === undefined) {
+          match = condition(parentEid, childEid, world, params!);
+          conditionCalls++;
+          if (results) cacheResult(results, parentEid, childEid, symmetric, match);
+        }
+        // ~~~
+        if (match) {
+          // one match too many - the parent can't pass anymore
+          if (++matches > max) break;
+          children2.push(childEid);
+          pairs?.push(parentEid, childEid);
+          // The skipCollectingChildren parameter determines if we should keep
+          // collecting children or if it's better to break out early. If there
+          // is not going to be another child query of this children array, then
+          // we don't need to continue collecting. Only valid once we know that
+          // no further match can push us over the upper bound.
+          if (skipCollectingChildren && matches >= min && max === Infinity) break;
+        }
+        // not enough children left to reach the lower bound (e.g. first miss for `All`)
+        else if (matches + (N - j - 1) < min) break;
+      }
+
+      if (matches >= min && matches <= max) {
+        parents2.push(parentEid);
+      } else {
+        // children only count as matched if their parent passed
+        truncate(children2, collectedBefore);
+        if (pairs) truncate(pairs, pairsBefore);
+      }
+    }
+    if (stats) stats.conditionCalls += conditionCalls;
+    return out ?? {parents: parents2, children: children2};
+  };
+
+  return createCustomTreeQueryFilter(queryFilter as unknown as QueryFilter, filterOptions);
+}
+
+
+export type ScoredTreeQueryFilterOptions = Omit<TreeQueryFilterOptions, "dependencies"> & {
+  // how many of the best scoring children each parent matches (defaults to 1)
+  best?: number;
+};
+
+/**
+ * Factory for filters that score every (parent, child) pair instead of just accepting or rejecting it.
+ * A parent matches its best scoring children only (the lowest scores), pairs scored `Infinity` or `NaN`
+ * don't match at all - e.g. the nearest pickup in range of each spaceship:
+ * <pre>
+ * const NearestInRange = createScoredTreeQueryFilter((eid1, eid2) => {
+ *   const myPos = eid1.get(Position)!;
+ *   const otherPos = eid2.get(Position)!;
+ *   const dist = Math.sqrt((myPos.x - otherPos.x) ** 2 + (myPos.y - otherPos.y) ** 2);
+ *   return dist <= eid1.get(Radius)!.value ? dist : Infinity;
+ * }, {requires: [Position, Radius]});
+ *
+ * const [binding] = createTreeQuery(IsSpaceship, NearestInRange(IsHealthPickup)).bindings(world);
+ * binding.matches[0][0].entity // the nearest pickup
+ * </pre>
+ * Quantifiers count the best matches, `None(...)` keeps the parents without any match.
+ * Which children are the best depends on all of them, so tracked queries re-evaluate the filter
+ * completely on each update, and the filter can't be `symmetric`.
+ * @param score - also gets the params the tree query was called with
+ * @param options - `requires` and `hints` like `createTreeQueryFilter`, and how many children are kept (`best`)
+ */
+export function createScoredTreeQueryFilter<W extends World = World, Params = any>(
+  score: (eid: Entity, nestedEid: Entity, world: W, params: Params) => number,
+  options: ScoredTreeQueryFilterOptions = {}
+) {
+  const {best = 1, ...filterOptions} = options;
+  if (!Number.isInteger(best) || best < 1) {
+    throw new Error(`createScoredTreeQueryFilter: best has to be a positive integer, got ${best}.`);
+  }
+  if (filterOptions.hints?.symmetric) {
+    throw new Error(`createScoredTreeQueryFilter: scored filters can't be symmetric, the best children depend on the parent.`);
+  }
+
+  // re-used between executions: indices and scores of the best children of the current parent, best first
+  const bestIndices: number[] = [];
+  const bestScores: number[] = [];
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    world: W,
+    _skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[],
+    stats?: QueryFilterStats,
+    params?: Params,
+    out?: QueryFilterResult
+  ) => {
+    const parents2: number[] = out?.parents ?? [];
+    const children2: number[] = out?.children ?? [];
+    const {min, max} = quantifier;
+    let conditionCalls = 0;
+
+    for (let i = 0; i < parents.length; i++) {
+      const parentEid = parents[i];
+      truncate(bestIndices, 0);
+      truncate(bestScores, 0);
+
+      // every child has to be scored, keep the best ones sorted by inserting from the back
+      for (let j = 0, N = children.length; j < N; j++) {
+        const value = score(parentEid, children[j], world, params!);
+        conditionCalls++;
+        if (!(value < Infinity)) continue;
+        if (bestScores.length === best && value >= bestScores[best - 1]) continue;
+
+        let k = Math.min(bestScores.length, best - 1);
+        for (; k > 0 && bestScores[k - 1] > value; k--) {
+          bestScores[k] = bestScores[k - 1];
+          bestIndices[k] = bestIndices[k - 1];
+        }
+        bestScores[k] = value;
+        bestIndices[k] = j;
+      }
+
+      const matches = bestIndices.length;
+      if (matches < min || matches > max) continue;
+      parents2.push(parentEid);
+      for (let k = 0; k < matches; k++) {
+        children2.push(children[bestIndices[k]]);
+        pairs?.push(parentEid, children[bestIndices[k]]);
+      }
+    }
+    if (stats) stats.conditionCalls += conditionCalls;
+    return out ?? {parents: parents2, children: children2};
+  };
+
+  return createCustomTreeQueryFilter(queryFilter as unknown as QueryFilter, filterOptions);
+}
+
+
+function quantify<N extends QueryFilterNode>(name: string, filterNode: N, quantifier: Quantifier): N {
+  if (!filterNode?.isFilter) {
+    throw new Error(`${name}: expects a filter node, e.g. ${name}(InPickupRange(IsExplosiveOnContact, Position)).`);
+  }
+  if (filterNode.quantifier) {
+    throw new Error(`${name}: filter node is already quantified, quantifiers can't be stacked.`);
+  }
+  if (filterNode.recursion && quantifier.max !== 0) {
+    throw new Error(`${name}: Reachable(...) filter nodes can only be negated, not counted.`);
+  }
+  if (filterNode.branches && quantifier.max !== 0) {
+    throw new Error(`${name}: AnyOf(...) nodes can only be negated, not counted.`);
+  }
+  const {min, max} = quantifier;
+  if (!(min >= 0) || !(max >= min) || (!Number.isInteger(min)) || (max !== Infinity && !Number.isInteger(max))) {
+    throw new Error(`${name}: invalid count range [${min}, ${max}], expected integers with 0 <= min <= max.`);
+  }
+  return {...filterNode, quantifier};
+}
+
+/**
+ * Negates a filter node created by a filter factory (see `createTreeQueryFilter`).
+ * The parent passes only if *no* entity of the child query satisfies the filter, e.g.
+ * all spaceships that have no explosive in range:
+ * <pre>
+ * const safeSpaceships = createTreeQuery(
+ *   IsSpaceship, Position, Radius,
+ *   None(InPickupRange(IsExplosiveOnContact, Position, Radius))
+ * );
+ * </pre>
+ * If the child query is empty, all parents pass.
+ * @param filterNode
+ */
+export function None<N extends QueryFilterNode>(filterNode: N): N {
+  return quantify("None", filterNode, {min: 0, max: 0});
+}
+
+/**
+ * The parent passes only if *every* entity of the child query satisfies the filter, e.g.
+ * all spaceships that are in range of every health pickup:
+ * <pre>
+ * const greedySpaceships = createTreeQuery(
+ *   IsSpaceship, Position, Radius,
+ *   All(InPickupRange(IsHealthPickup, Position, Radius))
+ * );
+ * </pre>
+ * If the child query is empty, all parents pass.
+ * @param filterNode
+ */
+export function All<N extends QueryFilterNode>(filterNode: N): N {
+  return quantify("All", filterNode, {min: 0, max: Infinity, all: true});
+}
+
+/**
+ * The parent passes if at least `n` entities of the child query satisfy the filter.
+ * `AtLeast(1, ...)` is the same as using the filter node as is.
+ * @param n
+ * @param filterNode
+ */
+export function AtLeast<N extends QueryFilterNode>(n: number, filterNode: N): N {
+  return quantify("AtLeast", filterNode, {min: n, max: Infinity});
+}
+
+/**
+ * The parent passes if exactly `n` entities of the child query satisfy the filter.
+ * @param n
+ * @param filterNode
+ */
+export function Exactly<N extends QueryFilterNode>(n: number, filterNode: N): N {
+  return quantify("Exactly", filterNode, {min: n, max: n});
+}
+
+/**
+ * The parent passes if the number of entities of the child query that satisfy the filter
+ * lies between `min` and `max` (both inclusive). Pass `Infinity` for an open upper bound.
+ * @param min
+ * @param max
+ * @param filterNode
+ */
+export function Between<N extends QueryFilterNode>(min: number, max: number, filterNode: N): N {
+  return quantify("Between", filterNode, {min, max});
+}
+
+
+/**
+ * Applies a filter transitively: the parent passes if a chain of one or more filter steps leads from it to
+ * an entity of the child query. Every entity along the way has to match `via` (all entities if omitted),
+ * cycles are detected and `maxDepth` limits the number of steps.
+ * <pre>
+ * // has a descendant with E at any depth
+ * const query1 = createTreeQuery(A, Reachable(HasChild(E)));
+ *
+ * // is within 3 hops of a Base along ConnectedTo, only passing through Roads
+ * const query2 = createTreeQuery(Town, Reachable(IsConnectedTo(Base), {maxDepth: 3, via: [Road]}));
+ * </pre>
+ * Works with any filter node, but filters that follow relations (see `createRelationFilter`) are the
+ * natural fit. Can be negated with `None(...)`, but not counted.
+ * @param filterNode
+ * @param options
+ */
+export function Reachable(
+  filterNode: QueryFilterNode,
+  options: { maxDepth?: number; via?: Array<Trait | QueryModifier> } = {}
+): QueryFilterNode {
+  if (!filterNode?.isFilter) {
+    throw new Error(`Reachable: expects a filter node, e.g. Reachable(HasChild(E)).`);
+  }
+  if (filterNode.quantifier || filterNode.recursion) {
+    throw new Error(`Reachable: expects a plain filter node, quantify or negate the Reachable(...) node instead.`);
+  }
+  if (filterNode.excludeSelf) {
+    throw new Error(`Reachable: paths can't exclude their start, ExcludeSelf(...) doesn't apply.`);
+  }
+  if (filterNode.branches) {
+    throw new Error(`Reachable: AnyOf(...) nodes can't be applied transitively.`);
+  }
+  const {maxDepth = Infinity, via = []} = options;
+  if (!(maxDepth >= 1) || (maxDepth !== Infinity && !Number.isInteger(maxDepth))) {
+    throw new Error(`Reachable: maxDepth has to be a positive integer, got ${maxDepth}.`);
+  }
+  return {...filterNode, recursion: {maxDepth, via}};
+}
+
+
+// Connects the node of AnyOf(...) with its branches: every entity only matches itself
+const sameEntityNode: QueryFilterNode = createCustomTreeQueryFilter(((
+  parents: Entity[],
+  children: Entity[],
+  _world: World,
+  _skipCollectingChildren = false,
+  quantifier: Quantifier = existentialQuantifier,
+  pairs?: number[]
+) => {
+  const parents2: number[] = [];
+  const children2: number[] = [];
+  const childSet = new Set(children);
+
+  for (let i = 0; i < parents.length; i++) {
+    const eid = parents[i];
+    const matches = childSet.has(eid) ? 1 : 0;
+    if (matches < quantifier.min || matches > quantifier.max) continue;
+    parents2.push(eid);
+    if (matches === 0) continue;
+    children2.push(eid);
+    pairs?.push(eid, eid);
+  }
+  return {parents: parents2, children: children2};
+}) as unknown as QueryFilter, {dependencies: [], hints: {cost: (outer, inner) => outer + inner}})();
+
+/**
+ * Alternatives on one level of the query tree: the parent passes if at least one of the branches matches.
+ * A branch is a filter node, a trait, or an array with traits and filter nodes - a complete sub-tree
+ * on the level of the parent, e.g. all spaceships that have a healer in range or that are shielded and
+ * have a health pickup in range:
+ * <pre>
+ * const query = createTreeQuery(
+ *   IsSpaceship, Position, Radius,
+ *   AnyOf(
+ *     InRange(IsHealer, Position, Radius),
+ *     [IsShielded, InRange(IsHealthPickup, Position, Radius)]
+ *   )
+ * );
+ * </pre>
+ * Can be negated with `None(...)` (none of the branches matches), but not counted. The bindings of an
+ * `AnyOf(...)` node hold the parent entity once, with one list of matches per branch (empty if the branch
+ * didn't match), each of which holds the parent again with the matches of the branch.
+ * @param branches
+ */
+export function AnyOf(...branches: Array<QueryFilterNode | Trait | WhereClause | QueryTree>): QueryFilterNode {
+  if (branches.length === 0) {
+    throw new Error(`AnyOf: expects at least one branch, e.g. AnyOf(InRange(IsHealer), InRange(IsHealthPickup)).`);
+  }
+  const trees = branches.map((branch, i) => {
+    const tree = Array.isArray(branch) ? branch : [branch];
+    if (tree.length === 0) {
+      throw new Error(`AnyOf: branch ${i} is empty.`);
+    }
+    if (tree.some(node => Array.isArray(node))) {
+      throw new Error(`AnyOf: branch ${i} contains an array, a branch can only contain traits and filter nodes.`);
+    }
+    return tree as QueryTree;
+  });
+  return {...sameEntityNode, branches: trees};
+}
+
+/**
+ * A sub-query that can be used in several places of one tree query, which makes the query a DAG instead of a tree:
+ * every filter node that gets the same `Shared(...)` object shares the same child node. Its entities have to be
+ * matched by every filter pointing to it, e.g. spaceships and turrets that cover the same safe pickup:
+ * <pre>
+ * const SafePickup = Shared(IsHealthPickup, None(InRange(IsExplosiveOnContact)));
+ *
+ * const query = createTreeQuery(
+ *   IsSpaceship,
+ *   InRange(SafePickup),
+ *   InRange(IsTurret, InRange(SafePickup))
+ * );
+ * </pre>
+ * A shared sub-query has to be the only argument of the filter node. The lists of the nodes are narrowed down
+ * until every entity that's left has a match for every filter it is part of (see `createTreeQuery`).
+ * @param level - traits and filter nodes, like the arguments of a filter node
+ */
+export function Shared<const Args extends Array<Trait | QueryModifier | QueryFilterNode | WhereClause>>(
+  ...level: CheckedLevel<Args>
+): SharedQuery<KnownElements<Args>> {
+  const components: Trait[] = [];
+  const childQueries: QueryFilterNode[] = [];
+  const where: WhereClause[] = [];
+  for (const node of level as Array<Trait | QueryModifier | QueryFilterNode | WhereClause>) {
+    if (Array.isArray(node)) {
+      throw new Error(`Shared: expects traits and filter nodes, not arrays.`);
+    }
+    if ((node as unknown as SharedQuery).isShared) {
+      throw new Error(`Shared: can't contain another Shared(...) sub-query directly, pass it to a filter node instead.`);
+    }
+    if ((node as QueryFilterNode).isFilter) childQueries.push(node as QueryFilterNode);
+    else if ((node as WhereClause).isWhere) addWhereClause(components, where, node as WhereClause);
+    else components.push(node as Trait);
+  }
+  if (components.length === 0 && childQueries.length === 0) {
+    throw new Error(`Shared: the sub-query is empty.`);
+  }
+  return {isShared: true, components, childQueries, where};
+}
+
+/**
+ * Takes the child level of a filter node from somewhere else than the world the tree query runs on: from another
+ * world, or from a function that returns the entities for each execution (it gets the world and the params the
+ * tree query was called with). E.g. actors standing in a hazardous zone of a separate world for the static level:
+ * <pre>
+ * const actorsInHazards = createTreeQuery(IsActor, From(levelWorld, InZone(IsZone, Hazard)));
+ *
+ * // or any entity list, e.g. the zones a navmesh lookup returns for the params
+ * const actorsInZones = createTreeQuery(IsActor, From((_world, params) => navmesh.zonesAround(params.pos), InZone()));
+ * </pre>
+ * The levels below the node stay in that world. The entities of a function are taken as they are, the traits on
+ * their level aren't checked. The root level always comes from the world the tree query runs on, and so does the
+ * result. The filters keep getting that world too, conditions read the other entities with `entity.get(...)`.
+ * Tracked queries subscribe to the other worlds as well, the entities of a function are compared again on
+ * every update.
+ * @param source - a world or a function returning entities
+ * @param filterNode
+ */
+export function From<N extends QueryFilterNode>(source: EntitySource, filterNode: N): N {
+  if (!filterNode?.isFilter) {
+    throw new Error(`From: expects a filter node, e.g. From(levelWorld, InZone(IsZone)).`);
+  }
+  if (typeof source !== "function" && typeof (source as World | undefined)?.query !== "function") {
+    throw new Error(`From: expects a world or a function returning entities as the source.`);
+  }
+  if (filterNode.source) {
+    throw new Error(`From: the filter node already has a source.`);
+  }
+  if (filterNode.branches) {
+    throw new Error(`From: AnyOf(...) nodes stand for the parent entities, they can't come from another source.`);
+  }
+  return {...filterNode, source};
+}
+
+/**
+ * Keeps the parents of a filter node from matching themselves, for filters that compare entities of the same
+ * kind - e.g. siblings, without `eid1 !== eid2` in the condition:
+ * <pre>
+ * const siblings = createTreeQuery(ExcludeSelf(HasSameParent()));
+ * const crowded = createTreeQuery(IsActor, Position, AtLeast(3, ExcludeSelf(InRange(IsActor, Position))));
+ * </pre>
+ * Quantifiers count the other matches, `All(...)` needs a match with all other children. To keep entities from
+ * matching the ones further up the tree as well (A near B near A), see the `distinct` option of `TreeQueryOptions`.
+ * @param filterNode
+ */
+export function ExcludeSelf<N extends QueryFilterNode>(filterNode: N): N {
+  if (!filterNode?.isFilter) {
+    throw new Error(`ExcludeSelf: expects a filter node, e.g. ExcludeSelf(HasSameParent()).`);
+  }
+  if (filterNode.excludeSelf) {
+    throw new Error(`ExcludeSelf: the filter node already excludes itself.`);
+  }
+  if (filterNode.recursion) {
+    throw new Error(`ExcludeSelf: paths of Reachable(...) nodes can't exclude their start.`);
+  }
+  if (filterNode.branches) {
+    throw new Error(`ExcludeSelf: AnyOf(...) nodes stand for the parent entities, they always match themselves.`);
+  }
+  return {...filterNode, excludeSelf: true};
+}
+
+/**
+ * A condition on the value of a trait, placed on a level of a tree query like a trait - e.g. spaceships that are
+ * low on health, with a pickup in range:
+ * <pre>
+ * const query = createTreeQuery(IsSpaceship, Where(Health, health => health.value < 20), InPickupRange(IsHealthPickup));
+ * </pre>
+ * The trait becomes a component of the level. The predicate runs on the entities of the level's ecs query, before
+ * any filter compares them, and can be combined with Koota's modifiers like `Not(...)` on the same level. It gets
+ * the value of the trait, the entity, the world and the params the tree query was called with. Values of schema
+ * traits are read into a record that is re-used for the next entity, copy it to keep it.
+ * Tracked queries re-evaluate once a value changes with `entity.set(...)`.
+ * @param trait - a trait with values (not a tag)
+ * @param predicate
+ */
+export function Where<T extends Trait, Params = any>(trait: T, predicate: WherePredicate<T, Params>): WhereClause<T> {
+  if (typeof trait !== "function" || !("schema" in trait)) {
+    throw new Error(`Where: expects a trait, e.g. Where(Health, health => health.value < 20).`);
+  }
+  if (typeof trait.schema !== "function" && Object.keys(trait.schema).length === 0) {
+    throw new Error(`Where: the trait is a tag, it has no values - use the trait itself.`);
+  }
+  if (typeof predicate !== "function") {
+    throw new Error(`Where: expects a predicate, e.g. Where(Health, health => health.value < 20).`);
+  }
+  return {isWhere: true, trait, predicate};
+}
+
+// the keys of a trait's values that hold numbers
+type NumericKey<T extends Trait> = {
+  [K in keyof TraitRecord<T>]: TraitRecord<T>[K] extends number ? K : never
+}[keyof TraitRecord<T>] & string;
+
+// traits with a factory (instead of a schema) can't be checked
+function checkField(name: string, trait: Trait, key: string) {
+  const schema: unknown = trait?.schema;
+  if (typeof trait !== "function" || (isObject(schema) && !(key in schema && typeof schema[key] === "number"))) {
+    throw new Error(`${name}: expects a trait and one of its fields that holds numbers, e.g. ${name}(Threat, "value").`);
+  }
+}
+
+// the number in a field of the trait, undefined if the entity doesn't have the trait
+const fieldOf = (entity: Entity, trait: Trait, key: string): number | undefined =>
+  (entity.get(trait) as Record<string, number> | undefined)?.[key];
+
+/**
+ * Aggregation for `TreeQuery.aggregate`: the number of children each parent matched.
+ * <pre>
+ * const alliesNearby = createTreeQuery(IsActor, AtLeast(0, InRange(IsAlly))).aggregate(world, [0], Count());
+ * </pre>
+ */
+export function Count(): TreeQueryAggregation<number> {
+  return {initial: 0, reduce: count => count + 1};
+}
+
+/**
+ * Aggregation for `TreeQuery.aggregate`: the sum of a field of the children each parent matched, children
+ * without the trait don't count.
+ * <pre>
+ * const threatInRange = createTreeQuery(IsActor, InRange(IsEnemy, Threat)).aggregate(world, [0], Sum(Threat, "value"));
+ * </pre>
+ * @param trait
+ * @param key - a field of the trait that holds numbers
+ */
+export function Sum<T extends Trait>(trait: T, key: NumericKey<T>): TreeQueryAggregation<number> {
+  checkField("Sum", trait, key);
+  return {initial: 0, reduce: (sum, child) => sum + (fieldOf(child, trait, key) ?? 0)};
+}
+
+/**
+ * Aggregation for `TreeQuery.aggregate`: the lowest value of a field among the children each parent matched,
+ * `Infinity` for parents without a match (e.g. with `AtLeast(0, ...)`). Children without the trait don't count.
+ * @param trait
+ * @param key - a field of the trait that holds numbers
+ */
+export function Min<T extends Trait>(trait: T, key: NumericKey<T>): TreeQueryAggregation<number> {
+  checkField("Min", trait, key);
+  return {initial: Infinity, reduce: (min, child) => Math.min(min, fieldOf(child, trait, key) ?? Infinity)};
+}
+
+/**
+ * Aggregation for `TreeQuery.aggregate`: the highest value of a field among the children each parent matched,
+ * `-Infinity` for parents without a match. Children without the trait don't count.
+ * @param trait
+ * @param key - a field of the trait that holds numbers
+ */
+export function Max<T extends Trait>(trait: T, key: NumericKey<T>): TreeQueryAggregation<number> {
+  checkField("Max", trait, key);
+  return {initial: -Infinity, reduce: (max, child) => Math.max(max, fieldOf(child, trait, key) ?? -Infinity)};
+}
+
+/**
+ * Aggregation for `TreeQuery.aggregate` with a reducer of your own, e.g. the closest enemy in range:
+ * <pre>
+ * const closest = Reduce<Entity | undefined>(undefined, (closest, enemy, actor) =>
+ *   closest === undefined || distance(actor, enemy) < distance(actor, closest) ? enemy : closest
+ * );
+ * </pre>
+ * Every parent starts with the same `initial` value, return a new value instead of changing it.
+ * @param initial
+ * @param reduce - gets the value so far, the child, the parent and the world of the child level
+ */
+export function Reduce<Value>(initial: Value, reduce: TreeQueryAggregation<Value>["reduce"]): TreeQueryAggregation<Value> {
+  if (typeof reduce !== "function") {
+    throw new Error(`Reduce: expects a reducer, e.g. Reduce(0, (sum, child) => sum + 1).`);
+  }
+  return {initial, reduce};
 }
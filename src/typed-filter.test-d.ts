@@ -0,0 +1,76 @@
+import {describe, expectTypeOf, it} from "vitest";
+import {Not, trait, type World} from "koota";
+import {createTreeQuery, None, Where} from "./tree-query.ts";
+import {createTypedTreeQueryFilter} from "./typed-filter.ts";
+
+// type-level tests, checked by tsc (`tsc --noEmit`) or `vitest --typecheck`
+
+describe('typed tree query filters (types)', () => {
+
+  const Position = trait({x: 0, y: 0});
+  const Radius = trait({value: 0});
+
+  const IsSpaceship = trait();
+  const IsHealthPickup = trait();
+  const IsDestroyed = trait();
+
+  const InPickupRange = createTypedTreeQueryFilter(
+    {parent: {Position, Radius}, child: {Position, Radius}},
+    (a, b, world, params) => {
+      expectTypeOf(a).toEqualTypeOf<{ Position: { x: number; y: number }; Radius: { value: number } }>();
+      expectTypeOf(b.Radius.value).toBeNumber();
+      expectTypeOf(world).toEqualTypeOf<World>();
+      expectTypeOf(params).toBeAny();
+      return true;
+    }
+  );
+
+  const InRangeOfCursor = createTypedTreeQueryFilter(
+    {parent: {}, child: {Position}},
+    (_, b, _world, params: { cursor: { x: number; y: number } }) => b.Position.x === params.cursor.x
+  );
+
+
+  it("accepts levels with all required traits", () => {
+    createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius));
+    createTreeQuery(Radius, Not(IsDestroyed), Position, None(InPickupRange(Position, Radius, IsHealthPickup)));
+    createTreeQuery(IsSpaceship, InRangeOfCursor(Position));
+    createTreeQuery(
+      IsSpaceship, Position, Radius,
+      InPickupRange(IsHealthPickup, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius))
+    );
+    // the trait of a Where(...) clause is on the level as well
+    createTreeQuery(
+      IsSpaceship, Where(Position, position => position.x > 0), Radius,
+      InPickupRange(IsHealthPickup, Position, Where(Radius, radius => {
+        expectTypeOf(radius).toEqualTypeOf<{ value: number }>();
+        return radius.value > 1;
+      }))
+    );
+  });
+
+
+  it("rejects levels with missing traits", () => {
+    // @ts-expect-error: Radius missing on the child side
+    InPickupRange(IsHealthPickup, Position);
+
+    // @ts-expect-error: Position missing on the child side
+    InRangeOfCursor(IsHealthPickup);
+
+    // @ts-expect-error: Radius missing on the parent side
+    createTreeQuery(IsSpaceship, Position, InPickupRange(IsHealthPickup, Position, Radius));
+
+    // @ts-expect-error: Radius missing on the parent side, next to a Where(...) clause
+    createTreeQuery(IsSpaceship, Where(Position, position => position.x > 0), InPickupRange(IsHealthPickup, Position, Radius));
+
+    // @ts-expect-error: quantified filters keep their requirements
+    createTreeQuery(IsSpaceship, Radius, None(InPickupRange(IsHealthPickup, Position, Radius)));
+
+    // nested filters: the parent side is the level of the filter node they are passed to
+    InPickupRange(
+      // @ts-expect-error: Position missing on the level of the outer filter's children
+      IsHealthPickup, Radius, InPickupRange(IsHealthPickup, Position, Radius)
+    );
+  });
+
+});
@@ -0,0 +1,107 @@
+import {describe, expect, it} from "vitest";
+import {createWorld} from "koota";
+import {createTreeQuery, createTreeQueryFilter, Exactly, None} from "./tree-query.ts";
+import {createTypedTreeQueryFilter} from "./typed-filter.ts";
+import {
+  createTestWorld,
+  inPickupRange,
+  IsExplosiveOnContact,
+  IsHealthPickup,
+  IsSpaceship,
+  Position,
+  Radius,
+  sorted
+} from "./test-helpers.ts";
+
+describe('typed tree query filters', () => {
+
+  let conditionCalls = 0;
+
+  const InPickupRange = createTypedTreeQueryFilter(
+    {parent: {Position, Radius}, child: {Position, Radius}},
+    (a, b) => {
+      conditionCalls++;
+      const dist = Math.sqrt((a.Position.x - b.Position.x) ** 2 + (a.Position.y - b.Position.y) ** 2);
+      return (dist - b.Radius.value) <= a.Radius.value;
+    }
+  );
+
+  // the untyped version, to compare with
+  const InPickupRangeUntyped = createTreeQueryFilter(inPickupRange, {requires: [Position, Radius]});
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    for (let i = 0; i < 10; i++) {
+      world.spawn(IsSpaceship, Radius({value: 5}), Position({x: i * 20, y: 0}));
+      world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: i * 15, y: 3}));
+    }
+    world.spawn(IsExplosiveOnContact, Radius({value: 1}), Position({x: 30, y: 4}));
+    return world;
+  };
+
+
+  it("passes the trait data to the condition", () => {
+    const world = populate();
+
+    const pairs = [
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius)),
+        createTreeQuery(IsSpaceship, InPickupRangeUntyped(IsHealthPickup)),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, None(InPickupRange(IsHealthPickup, Position, Radius))),
+        createTreeQuery(IsSpaceship, None(InPickupRangeUntyped(IsHealthPickup))),
+      ],
+      [
+        createTreeQuery(IsSpaceship, Position, Radius, Exactly(1, InPickupRange(
+          IsHealthPickup, Position, Radius, None(InPickupRange(IsExplosiveOnContact, Position, Radius))
+        ))),
+        createTreeQuery(IsSpaceship, Exactly(1, InPickupRangeUntyped(
+          IsHealthPickup, None(InPickupRangeUntyped(IsExplosiveOnContact))
+        ))),
+      ],
+    ];
+
+    for (const [typed, untyped] of pairs) {
+      const expected = sorted(untyped(world));
+      expect(expected.length).toBeGreaterThan(0);
+      expect(sorted(typed(world))).toEqual(expected);
+    }
+
+    // the data is fetched once per entity, the condition still runs (at most) once per pair
+    conditionCalls = 0;
+    createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius))(world);
+    expect(conditionCalls).toBeGreaterThan(0);
+    expect(conditionCalls).toBeLessThanOrEqual(10 * 10);
+  });
+
+
+  it("stays in sync when tracked", () => {
+    const world = createWorld();
+    const ship = world.spawn(IsSpaceship, Radius({value: 5}), Position({x: 0, y: 0}));
+    const pickup = world.spawn(IsHealthPickup, Radius({value: 1}), Position({x: 100, y: 0}));
+
+    const tracked = createTreeQuery(
+      IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius)
+    ).track(world);
+    expect(tracked.update()).toEqual([]);
+
+    // the declared traits are the dependencies of the filter
+    pickup.set(Position, {x: 3, y: 0});
+    expect(tracked.update()).toEqual([ship]);
+    ship.set(Radius, {value: 1});
+    expect(tracked.update()).toEqual([]);
+    tracked.dispose();
+  });
+
+
+  it("rejects symmetric hints with different traits on each side", () => {
+    expect(() => createTypedTreeQueryFilter(
+      {parent: {Position, Radius}, child: {Position}},
+      (a, b) => a.Position.x + a.Radius.value >= b.Position.x,
+      {hints: {symmetric: true}}
+    )).toThrow();
+  });
+
+});
@@ -0,0 +1,172 @@
+import type {Entity, QueryModifier, Trait, TraitRecord, World} from "koota";
+import {
+  type CheckedLevel,
+  createCustomTreeQueryFilter,
+  existentialQuantifier,
+  type PlannerHints,
+  type QueryFilter,
+  type QueryFilterNode,
+  type QueryFilterStats,
+  type Quantifier,
+  type SharedQuery,
+  type WhereClause
+} from "./tree-query.ts";
+
+
+// traits by the names their data is passed to the condition with, e.g. {Position, Radius}
+export type TraitMap = Record<string, Trait>;
+
+export type TraitRecords<M extends TraitMap> = { [K in keyof M]: TraitRecord<M[K]> };
+
+// a filter node that knows which traits it requires on its parent side, see `CheckedLevel`
+export type TypedQueryFilterNode<ParentTraits extends Trait = Trait> = QueryFilterNode & {
+  parentTraits: ParentTraits[];
+};
+
+export type TypedTreeQueryFilterOptions = {
+  // the traits the condition reads besides the ones it gets passed, see `createTreeQueryFilter`
+  dependencies?: Trait[];
+  hints?: PlannerHints;
+};
+
+// Fills the (re-used) records with the trait data of the entities
+function fetchRecords(entities: Entity[], traits: TraitMap, keys: string[], records: Record<string, unknown>[]) {
+  for (let i = records.length; i < entities.length; i++) records.push({});
+  for (let i = 0; i < entities.length; i++) {
+    const record = records[i];
+    for (let k = 0; k < keys.length; k++) record[keys[k]] = entities[i].get(traits[keys[k]]);
+  }
+}
+
+
+/**
+ * Typed variant of `createTreeQueryFilter`: the filter declares the traits it reads on the parent and the child
+ * side, and the condition gets their data instead of the entities. The data is fetched once per entity and
+ * execution, not once per pair.
+ * <pre>
+ * const InPickupRange = createTypedTreeQueryFilter(
+ *   {parent: {Position, Radius}, child: {Position, Radius}},
+ *   (a, b) => {
+ *     const dist = Math.sqrt((a.Position.x - b.Position.x) ** 2 + (a.Position.y - b.Position.y) ** 2);
+ *     return (dist - b.Radius.value) <= a.Radius.value;
+ *   }
+ * );
+ *
+ * createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup, Position, Radius));
+ * createTreeQuery(IsSpaceship, Position, Radius, InPickupRange(IsHealthPickup)); // compile error, traits missing
+ * </pre>
+ * Leaving out a declared trait on either side of the filter is a compile time error (see `CheckedLevel`).
+ * At runtime the traits get added to the queries like `requires` does, and unless `dependencies` are passed,
+ * the declared traits are used as the dependencies of the filter for tracked queries.
+ * The records passed to the condition are re-used between calls, don't hold on to them.
+ * @param traits
+ * @param condition - also gets the world and the params the tree query was called with
+ * @param options
+ */
+export function createTypedTreeQueryFilter<
+  P extends TraitMap,
+  C extends TraitMap,
+  W extends World = World,
+  Params = any
+>(
+  traits: { parent: P; child: C },
+  condition: (parent: TraitRecords<P>, child: TraitRecords<C>, world: W, params: Params) => boolean,
+  options: TypedTreeQueryFilterOptions = {}
+) {
+  const parentKeys = Object.keys(traits.parent);
+  const childKeys = Object.keys(traits.child);
+
+  // re-used between executions
+  const parentRecords: Record<string, unknown>[] = [];
+  const childRecords: Record<string, unknown>[] = [];
+
+  const queryFilter = (
+    parents: Entity[],
+    children: Entity[],
+    world: W,
+    skipCollectingChildren = false,
+    quantifier: Quantifier = existentialQuantifier,
+    pairs?: number[],
+    stats?: QueryFilterStats,
+    params?: Params
+  ) => {
+    const parents2: number[] = [];
+    const children2: number[] = [];
+    const {min, max} = quantifier;
+    let conditionCalls = 0;
+
+    fetchRecords(parents, traits.parent, parentKeys, parentRecords);
+    fetchRecords(children, traits.child, childKeys, childRecords);
+
+    for (let i = 0; i < parents.length; i++) {
+      const parentEid = parents[i];
+      const parentRecord = parentRecords[i] as TraitRecords<P>;
+      const collectedBefore = children2.length;
+      const pairsBefore = pairs?.length ?? 0;
+      let matches = 0;
+
+      for (let j = 0, N = children.length; j < N; j++) {
+        conditionCalls++;
+        if (condition(parentRecord, childRecords[j] as TraitRecords<C>, world, params!)) {
+          if (++matches > max) break;
+          children2.push(children[j]);
+          pairs?.push(parentEid, children[j]);
+          if (skipCollectingChildren && matches >= min && max === Infinity) break;
+        }
+        else if (matches + (N - j - 1) < min) break;
+      }
+
+      if (matches >= min && matches <= max) {
+        parents2.push(parentEid);
+      } else {
+        children2.length = collectedBefore;
+        if (pairs) pairs.length = pairsBefore;
+      }
+    }
+
+    if (stats) stats.conditionCalls += conditionCalls;
+    return {parents: parents2, children: children2};
+  };
+
+  return createTypedFilterFactory("createTypedTreeQueryFilter", traits, queryFilter as unknown as QueryFilter, options);
+}
+
+/**
+ * What the typed filters have in common (see `createTypedTreeQueryFilter`, `createBatchTreeQueryFilter` and
+ * `createParallelTreeQueryFilter`): turns a query filter that reads the declared traits into a factory for
+ * filter nodes, whose query levels have to include the traits of both sides.
+ * @param name - the factory to report errors for
+ * @param traits
+ * @param queryFilter
+ * @param options - the dependencies default to the declared traits
+ */
+export function createTypedFilterFactory<P extends TraitMap, C extends TraitMap>(
+  name: string,
+  traits: { parent: P; child: C },
+  queryFilter: QueryFilter,
+  options: TypedTreeQueryFilterOptions
+) {
+  const parentKeys = Object.keys(traits.parent);
+  const childKeys = Object.keys(traits.child);
+  const parentTraits = Object.values(traits.parent) as Array<P[keyof P]>;
+  const childTraits = Object.values(traits.child);
+
+  const {dependencies = [...parentTraits, ...childTraits], hints} = options;
+  if (hints?.symmetric && (parentKeys.length !== childKeys.length ||
+    parentKeys.some(key => traits.parent[key] !== traits.child[key]))) {
+    throw new Error(`${name}: symmetric filters need the same traits on both sides.`);
+  }
+
+  const factory = createCustomTreeQueryFilter(queryFilter, {
+    requires: {parent: parentTraits, child: childTraits},
+    dependencies,
+    hints,
+  });
+
+  return <const Args extends Array<Trait | QueryModifier | QueryFilterNode | SharedQuery | WhereClause>>(
+    ...nodeTraits: CheckedLevel<Args, C[keyof C]>
+  ): TypedQueryFilterNode<P[keyof P]> => ({
+    ...factory(...nodeTraits as Array<Trait | QueryModifier | QueryFilterNode | SharedQuery | WhereClause>),
+    parentTraits,
+  });
+}
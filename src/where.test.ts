@@ -0,0 +1,112 @@
+import {describe, expect, it} from "vitest";
+import {Not, trait, type Entity} from "koota";
+import {AnyOf, createTreeQuery, createTreeQueryFilter, From, None, Shared, Where} from "./tree-query.ts";
+import {createTestWorld, IsHealthPickup, IsSpaceship, Position} from "./test-helpers.ts";
+
+describe('where clauses', () => {
+
+  const Health = trait({value: 100});
+  const Cargo = trait(() => ({items: [] as string[]}));
+
+  const IsDestroyed = trait();
+
+  // the pairs the condition was called with
+  let compared: Array<[Entity, Entity]> = [];
+
+  const inRange = (eid1: Entity, eid2: Entity) => {
+    compared.push([eid1, eid2]);
+    return Math.abs(eid1.get(Position)!.x - eid2.get(Position)!.x) <= 10;
+  };
+  const InRange = createTreeQueryFilter(inRange, {requires: [Position]});
+
+  const populate = () => {
+    const world = createTestWorld();
+
+    const ships = [[0, 10], [100, 50], [200, 15], [300, 5]].map(([x, value]) =>
+      world.spawn(IsSpaceship, Health({value}), Position({x, y: 0}))
+    );
+    const pickups = [5, 105, 205].map(x => world.spawn(IsHealthPickup, Health({value: 20}), Position({x, y: 0})));
+    ships[3].add(IsDestroyed);
+    return {world, ships, pickups};
+  };
+
+  const isLow = (health: { value: number }) => health.value < 20;
+
+
+  it("prunes entities before any filter compares them", () => {
+    const {world, ships} = populate();
+    const query = createTreeQuery(IsSpaceship, Where(Health, isLow), InRange(IsHealthPickup));
+
+    compared = [];
+    expect(query(world)).toEqual([ships[0], ships[2]]);
+    // the ship with full health never got compared
+    expect(compared.length).toBeGreaterThan(0);
+    expect(compared.some(([ship]) => ship === ships[1])).toBe(false);
+
+    // stacks with Koota's modifiers, in any order
+    expect(createTreeQuery(IsSpaceship, Where(Health, isLow), Not(IsDestroyed), InRange(IsHealthPickup))(world))
+      .toEqual([ships[0], ships[2]]);
+    expect(createTreeQuery(Not(IsDestroyed), Where(Health, isLow), IsSpaceship, None(InRange(IsHealthPickup)))(world))
+      .toEqual([]);
+    expect(createTreeQuery(IsSpaceship, Where(Health, isLow), None(InRange(IsHealthPickup)))(world)).toEqual([ships[3]]);
+
+    // values change without entities being added or removed
+    ships[1].set(Health, {value: 1});
+    expect(query(world)).toEqual([ships[0], ships[1], ships[2]]);
+    const out: Entity[] = [];
+    ships[0].set(Health, {value: 100});
+    expect(query.into(world, out)).toEqual([ships[1], ships[2]]);
+  });
+
+
+  it("works on every level", () => {
+    const {world, ships, pickups} = populate();
+    pickups[1].set(Health, {value: 0});
+    const isFull = (health: { value: number }) => health.value > 0;
+
+    expect(createTreeQuery(IsSpaceship, InRange(IsHealthPickup, Where(Health, isFull)))(world)).toEqual([ships[0], ships[2]]);
+    const FullPickup = Shared(IsHealthPickup, Where(Health, isFull));
+    expect(createTreeQuery(IsSpaceship, InRange(FullPickup), InRange(FullPickup))(world)).toEqual([ships[0], ships[2]]);
+    expect(createTreeQuery(IsSpaceship, AnyOf(Where(Health, isLow), InRange(IsHealthPickup)))(world))
+      .toEqual([ships[0], ships[1], ships[2], ships[3]]);
+    expect(createTreeQuery(IsSpaceship, Where(Health, isLow), AnyOf(IsDestroyed, InRange(IsHealthPickup)))(world))
+      .toEqual([ships[0], ships[2], ships[3]]);
+
+    // traits with a factory get their instance, the entities of a provider don't pass without the trait
+    pickups[0].add(Cargo({items: ["fuel"]}));
+    pickups[2].add(Cargo);
+    const withCargo = Where(Cargo, cargo => cargo.items.length > 0);
+    expect(createTreeQuery(IsSpaceship, InRange(IsHealthPickup, withCargo))(world)).toEqual([ships[0]]);
+    expect(createTreeQuery(IsSpaceship, From(() => pickups, InRange(withCargo)))(world)).toEqual([ships[0]]);
+  });
+
+
+  it("gets the params and keeps tracked queries up to date", () => {
+    const {world, ships} = populate();
+    const below = Where(Health, (health, _entity, _world, params: { threshold: number }) => health.value < params.threshold);
+    const query = createTreeQuery<{ threshold: number }>(IsSpaceship, below, InRange(IsHealthPickup));
+    expect(query(world, {threshold: 12})).toEqual([ships[0]]);
+    expect(query(world, {threshold: 100})).toEqual([ships[0], ships[1], ships[2]]);
+
+    const InRangeTracked = createTreeQueryFilter(inRange, {requires: [Position], dependencies: [Position]});
+    const tracked = createTreeQuery(IsSpaceship, Where(Health, isLow), InRangeTracked(IsHealthPickup)).track(world);
+    expect(tracked.update()).toEqual([ships[0], ships[2]]);
+    ships[2].set(Health, {value: 100});
+    ships[1].set(Health, {value: 10});
+    expect(tracked.update()).toEqual([ships[0], ships[1]]);
+    expect(tracked.added).toEqual([ships[1]]);
+    expect(tracked.removed).toEqual([ships[2]]);
+    tracked.dispose();
+  });
+
+
+  it("rejects invalid clauses", () => {
+    expect(() => Where(IsSpaceship, () => true)).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => Where({}, () => true)).toThrow();
+    // @ts-expect-error: testing invalid input
+    expect(() => Where(Health)).toThrow();
+    expect(() => createTreeQuery(IsSpaceship, Not(Health), Where(Health, isLow), InRange(IsHealthPickup))).toThrow();
+  });
+
+});
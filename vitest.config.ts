@@ -0,0 +1,10 @@
+import {defineConfig} from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // allocation.test.ts triggers the garbage collection before it measures the heap
+    poolOptions: {
+      forks: {execArgv: ["--expose-gc"]},
+    },
+  },
+});